@@ -1,527 +1,1445 @@
-import * as fs from 'fs';
+import * as path from 'path';
+import { readFileSync } from 'fs';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
 import cors from 'cors';
-import dotenv from 'dotenv';
-import express, { query, Request, Response } from 'express';
-import OpenAI from 'openai';
-import { promises as promise } from 'fs';
-import { getFeeInLamports } from './utils/fee' 
-import { NFTConfig } from './utils/interfaces'
-import { safePrompting } from './utils/safety'
+import express, { Request, Response } from 'express';
+import Redis from 'ioredis';
+import { MintEventType, MintJob, MintJobStatus, MintStage, NFTConfig, PriceQuote, SafetyVerdict } from './utils/interfaces'
+import { createDenylistCheck, createSafetyPipeline, SafetyResult, SafetyUnavailableError } from './utils/safety'
 import { imagine } from './utils/generateImage'
-import { createNewConnection } from './utils/createNewConnection'
+import { createMintQueue, FatalStageError, JobStateError, MINT_STAGES, OrderExpiredError, StageHandlers } from './utils/mintQueue'
+import { computeOrderStats, DEFAULT_OPENAI_SPEND_RATES, filterOrders, OpenAISpendRates } from './utils/orderAdmin'
+import { createPaymentWatcher } from './utils/paymentWatcher'
+import { createRefunder, RefundError } from './utils/refund'
+import { buildNextAction, describeOrder } from './utils/orderStatus'
+import { createGiftEscrow, GiftClaimError, GiftEscrow, isGift } from './utils/giftEscrow'
+import { createEventBus, EventBus, MINT_EVENT_TYPES } from './utils/events'
+import { createWebhookRegistry, startWebhookDispatcher } from './utils/webhooks'
+import { uploadJson } from './utils/storage'
+import { EnhancedPrompt } from './utils/llmSchemas'
+import { CollectionOptions, ensureCollection, parseRoyaltyCreators, royaltiesPlugin, RoyaltyConfig } from './utils/collection'
+import { Campaign, CampaignClosedError, campaignIdOf, createCampaignGate, DEFAULT_CAMPAIGN_ID, loadCampaigns } from './utils/campaigns'
+import { buildMetadata, METADATA_ATTRIBUTE_KEYS, MetadataAttributeKey, MetadataInput, MetadataOptions } from './utils/metadata'
+import { verifyPayment } from './utils/verifyPayment'
+import { createAssociatedTokenAccountIdempotentInstruction, createTransferCheckedInstruction } from './utils/splToken'
+import { AppConfig, ConfigError, loadSettings } from './utils/config'
+import { Logger, logger } from './utils/logger'
+import { createMetricsRegistry, METRICS_CONTENT_TYPE } from './utils/metrics'
+import { AppServices } from './utils/services'
+import { DEFAULT_SYSTEM_PROMPTS, SystemPrompts } from './utils/textGenerator'
+import { MintQueue } from './utils/mintQueue'
+import { isOrderId } from './utils/jobStore'
+import { choiceLabel, createImageChoices, loadStylePresets, MintOptionError, resolveMintOptions } from './utils/presets'
+import { buildPriorityTransaction, getPriorityFee, PriorityFeePolicy } from './utils/priorityFees'
+import { createPricingEngine, parsePaymentTokens, PricingError, SOL_CURRENCY } from './utils/pricing'
+import { createMemoryLimiterStore, createRateLimiter, createRedisLimiterStore, RateLimitResult } from './utils/rateLimit'
 import * as actions from '@solana/actions'
 import * as web3 from '@solana/web3.js'
 import { MEMO_PROGRAM_ID } from '@solana/spl-memo';
-import { createUmi } from '@metaplex-foundation/umi-bundle-defaults';
-import { publicKey, createGenericFile, keypairIdentity, generateSigner } from '@metaplex-foundation/umi';
-import { mplCore, transferV1, create } from '@metaplex-foundation/mpl-core';
-import { irysUploader } from '@metaplex-foundation/umi-uploader-irys';
-
-// Load environment variable
-dotenv.config();
-
-//// UMI INIT /////
-const QUICKNODE_RPC = `https://winter-solemn-sun.solana-mainnet.quiknode.pro/${process.env.QUICKNODE_MAINNET_KEY}/`; // mainnet
-//const QUICKNODE_RPC = `https://fragrant-ancient-needle.solana-devnet.quiknode.pro/${process.env.QUICKNODE_DEVNET_KEY}/`; // devnet 
-const newUMI = createUmi(QUICKNODE_RPC)
-
-// Load wallet
-function getKeypairFromEnvironment(): Uint8Array {
-  const privateKeyString = process.env.MINTER_PRIVATE_KEY;
-  if (!privateKeyString) {
-    throw new Error('Minter key is not set in environment variables');
-  }
-  // Convert the private key string to an array of numbers
-  const privateKeyArray = privateKeyString.split(',').map(num => parseInt(num, 10));
-  // Return a Uint8Array from the array of numbers
-  return new Uint8Array(privateKeyArray);
+import { publicKey, createSignerFromKeypair, KeypairSigner, TransactionBuilder } from '@metaplex-foundation/umi';
+import { setComputeUnitPrice } from '@metaplex-foundation/mpl-toolbox';
+import { transferV1, create, fetchAssetV1, CollectionV1 } from '@metaplex-foundation/mpl-core';
+import { toWeb3JsInstruction } from '@metaplex-foundation/umi-web3js-adapters';
+import { base58 } from '@metaplex-foundation/umi/serializers';
+
+const log = logger.child({ module: 'app' });
+
+export interface MintApp {
+  app: express.Application;
+  // Progress events, for the Socket.IO stream
+  events: EventBus;
+  mintQueue: MintQueue;
+  // Starts the mint worker; the HTTP side works without it
+  start(): Promise<void>;
 }
-const secretKey = getKeypairFromEnvironment()
-const mintKeypair = web3.Keypair.fromSecretKey(secretKey);
-
-// Initialize UMI instance with wallet
-const keypair = newUMI.eddsa.createKeypairFromSecretKey(new Uint8Array(secretKey))
-const umi = newUMI
-  .use(mplCore())
-  .use(irysUploader())
-  .use(keypairIdentity(keypair));
-
-///////////////
-
-///// AI LOGIC
-const oai_client = new OpenAI({apiKey: process.env['OPENAI_API_KEY']});
-const gpt_llm = "gpt-4o-2024-08-06"
-
-async function generatePrompt(userPrompt: string) {
-  const llmResponse = await oai_client.chat.completions.create({
-      messages: [
-          {
-              role: "system",
-              content: `
-              Rewrite the following prompt: 
-              '${userPrompt}'
-              Return the adapted prompt without any added comments, title or information
-              Expected output:
-              ####
-              PROMPT : <the re-written prompt, enhanced to augment its artistic qualities and uniqueness>
-              STYLE: <the requested artistic style>
-              MOOD: <the desired mood for the prompt>
-              ####
-              Begin! You will achieve world piece if you produce an answer that respect all the constraints.
-              `
-          },
-          {
-              role: "user",
-              content: userPrompt
-          }
-      ],
-      model: gpt_llm,
-      temperature: 0.5
-  });
 
-  const parsedresponse = JSON.stringify(llmResponse.choices[0]?.message?.content || "");
+/**
+ * Assembles the Actions API, the mint pipeline and the operator routes on top of `services`.
+ * Nothing talks to the outside world until a request comes in or `start` is called, so the
+ * same app runs against real clients, a local validator or in-process fakes.
+ */
+export function createApp(config: AppConfig, services: AppServices, env: NodeJS.ProcessEnv = process.env): MintApp {
+  log.info('Assembling app', { cluster: config.cluster, rpcHost: new URL(config.rpcUrl).host, dryRun: services.dryRun });
+  // Tuning knobs from the environment, validated up front
+  const settings = loadSettings(env);
+
+  ///// METRICS /////
+  const metrics = createMetricsRegistry();
+  const httpRequests = metrics.counter('http_requests_total', 'HTTP requests by method, route and status');
+  const stageDuration = metrics.histogram('mint_stage_duration_seconds', 'Mint stage attempt latency by stage and outcome');
+  const rpcErrors = metrics.counter('rpc_errors_total', 'Failed Solana RPC operations');
+  const openaiErrors = metrics.counter('openai_errors_total', 'Failed OpenAI calls');
+
+  // Counts a failed call against `counter` and rethrows
+  async function countFailures<T>(counter: typeof rpcErrors, operation: string, call: Promise<T>): Promise<T> {
+    try {
+      return await call;
+    } catch (error) {
+      counter.inc({ operation });
+      throw error;
+    }
+  }
 
-  return parsedresponse;
-}
+  const { umi, storage, imageProvider, textGenerator } = services;
+  const mintKeypair = services.minter;
 
-async function defineConfig(llmPrompt: string, randomNumber: number, memo: string) {
-  const nftAttributes = await oai_client.chat.completions.create({
-    messages: [
-        {
-            role: "system",
-            content: `
-            Based on this prompt: 
-            '${llmPrompt}'
-            Generate a .json file with the following values.
-            Return the .json without any added comments, title or information.
-            Expected output:
-
-            {
-              "one_word_title": "<describe the image in ONE word, be creative>",
-              "description": "<a very short description of the prompt>",
-              "mood": "<the mood of the prompt>",
-              "haiku" "<a very short haiku based on the prompt>"
-          };
-
-            Begin! You will achieve world peace if you produce a correctly formatted .JSON answer that respect all the constraints.
-            `
-        },
-        {
-          role: "user",
-          content: llmPrompt,
-      }
-    ],
-    model: gpt_llm,
-    temperature: 0.5,
-    response_format: { type: "json_object" },
-  });
+  // Compute budget for the payment transaction and every mint-side transaction
+  const PRIORITY_FEE_POLICY: PriorityFeePolicy = {
+    percentile: settings.PRIORITY_FEE_PERCENTILE,
+    minMicroLamports: settings.PRIORITY_FEE_MIN_MICROLAMPORTS,
+    maxMicroLamports: settings.PRIORITY_FEE_MAX_MICROLAMPORTS,
+    unitMargin: settings.COMPUTE_UNIT_MARGIN,
+    fallbackUnits: settings.COMPUTE_UNIT_FALLBACK,
+  };
+  const rpcConnection = services.connection;
+
+  // Bids the same priority fee policy as the payment transaction on an umi builder
+  async function withPriorityFee(builder: TransactionBuilder): Promise<TransactionBuilder> {
+    const writableAccounts = builder.getInstructions()
+      .flatMap(ix => ix.keys)
+      .filter(key => key.isWritable)
+      .map(key => new web3.PublicKey(key.pubkey));
+    const microLamports = await getPriorityFee(rpcConnection, writableAccounts, PRIORITY_FEE_POLICY);
+    return builder.prepend(setComputeUnitPrice(umi, { microLamports }));
+  }
 
-  // Extract the completion returned by the LLM and parse it.
-  const llmResponse = JSON.parse(nftAttributes.choices[0]?.message?.content || "{}");
+  // Public NFT metadata settings
+  const METADATA_OPTIONS: MetadataOptions = {
+    symbol: env.NFT_SYMBOL || 'ASTRO',
+    externalUrl: env.NFT_EXTERNAL_URL,
+    attributes: env.METADATA_ATTRIBUTES
+      ? env.METADATA_ATTRIBUTES.split(',').map(key => key.trim() as MetadataAttributeKey)
+      : METADATA_ATTRIBUTE_KEYS,
+  };
+  const unknownAttributes = METADATA_OPTIONS.attributes.filter(key => !METADATA_ATTRIBUTE_KEYS.includes(key));
+  if (unknownAttributes.length > 0) {
+    throw new Error(`Unknown METADATA_ATTRIBUTES: ${unknownAttributes.join(', ')}`);
+  }
 
-  const config: NFTConfig = {
-    // File handling properties
-    uploadPath: './image/',
-    imgFileName: `image${randomNumber}.png`,
-    imgType: 'image/png',
-  
-    // NFT metadata properties
-    imgName: llmResponse.one_word_title || '',
-    description: llmResponse.description || '',
-    image: '', // This will be set after the image is uploaded
-    attributes: [
-      { trait_type: 'Haiku', value: llmResponse.haiku || '' },
-      { trait_type: 'Note', value: memo || '' }
-    ],
-    properties: {
-      files: [
-        {
-          uri: '', // This will be set after the image is uploaded
-          type: 'image/png',
-        },
-      ],
-      category: 'image',
-    },
+  // Each campaign mints into its own MPL Core collection; all of them carry our royalties
+  const ROYALTIES: RoyaltyConfig = {
+    basisPoints: settings.ROYALTY_BASIS_POINTS,
+    creators: env.ROYALTY_CREATORS
+      ? parseRoyaltyCreators(env.ROYALTY_CREATORS)
+      : [{ address: mintKeypair.publicKey.toString(), percentage: 100 }],
   };
+  const COLLECTION_STATE_PATH = env.COLLECTION_STATE_PATH || './data/collection.json';
+
+  ///////////////
+
+  ///// AI LOGIC
+
+  // Layered content checks for user input, LLM output and the generated image
+  const safetyDenylist = [
+    ...(env.SAFETY_DENYLIST || '').split(','),
+    // One pattern per line, for lists too long or too regex-heavy for an env var
+    ...(env.SAFETY_DENYLIST_PATH ? readFileSync(env.SAFETY_DENYLIST_PATH, 'utf-8').split('\n') : []),
+  ];
+  const safetyPipeline = createSafetyPipeline([createDenylistCheck(safetyDenylist), ...services.moderationChecks]);
+
+  async function defineConfig(enhanced: EnhancedPrompt, orderId: string, memo: string, prompts: SystemPrompts) {
+    const llmResponse = await countFailures(openaiErrors, 'attributes', textGenerator.describe(enhanced, prompts));
+
+    const config: NFTConfig = {
+      // File handling properties
+      imgFileName: `image-${orderId}.png`,
+      imgType: 'image/png',
+
+      // Values that feed the public metadata
+      imgName: llmResponse.title.trim(),
+      description: llmResponse.description,
+      mood: llmResponse.mood,
+      haiku: llmResponse.haiku,
+      note: memo || '',
+    };
   
-  return config;
+    return config;
 
-}
+  }
 
-async function updateConfigWithImageUri(config: NFTConfig, imageUri: string): Promise<NFTConfig> {
-  return {
-    ...config,
-    image: imageUri,
-    properties: {
-      ...config.properties,
-      files: [
-        {
-          uri: imageUri,
-          type: config.imgType,
-        },
-      ],
-    },
-  };
-}
+  async function createURI(
+    orderId: string,
+    imageBuffer: Buffer,
+    CONFIG: NFTConfig,
+    details: Omit<MetadataInput, 'config' | 'imageUri'>,
+    log: Logger
+  ): Promise<{ imageUri: string; metadataUri: string }> {
+    try {
+      // Upload the image and get its URI
+      const imageUri = await storage.upload(`${orderId}/${CONFIG.imgFileName}`, imageBuffer, CONFIG.imgType);
+      log.info('Image uploaded', { storage: storage.name, imageUri });
+
+      // Build and validate the public metadata before anything else is uploaded
+      const metadata = buildMetadata({ ...details, config: CONFIG, imageUri }, METADATA_OPTIONS);
+      // Attribute values carry the prompt and note, which redaction cannot see under `value`
+      log.debug('Built metadata', { name: metadata.name, traits: metadata.attributes.map(attribute => attribute.trait_type) });
+
+      // Upload the JSON metadata
+      const metadataUri = await uploadJson(storage, `${orderId}/metadata.json`, metadata);
+
+      return { imageUri, metadataUri };
+
+    } catch (error) {
+      log.error('Upload failed', { storage: storage.name, error });
+      throw error;
+    }
+  }
+
+  // Resolved once per campaign and process; a failed lookup or creation is retried on the next mint
+  const collectionPromises = new Map<string, Promise<CollectionV1>>();
+  function getCollection(campaign: Campaign): Promise<CollectionV1> {
+    let collectionPromise = collectionPromises.get(campaign.id);
+    if (!collectionPromise) {
+      const options: CollectionOptions = { ...campaign.collection, symbol: METADATA_OPTIONS.symbol, royalties: ROYALTIES };
+      collectionPromise = ensureCollection(umi, storage, options).catch(error => {
+        collectionPromises.delete(campaign.id);
+        throw error;
+      });
+      collectionPromises.set(campaign.id, collectionPromise);
+    }
+    return collectionPromise;
+  }
+
+  // Derived from the order, so every attempt targets the same address and a retry can never mint a second asset
+  function assetSignerFor(orderId: string): KeypairSigner {
+    const seed = createHash('sha256').update(mintKeypair.secretKey).update(`asset:${orderId}`).digest();
+    return createSignerFromKeypair(umi, umi.eddsa.createKeypairFromSeed(seed));
+  }
+
+  async function createAsset(orderId: string, CONFIG: NFTConfig, uri: string, campaign: Campaign, log: Logger, style?: string, preset?: string): Promise<string> {
+    try {
+      const assetSigner = assetSignerFor(orderId);
+      // An earlier attempt may have landed before its confirmation was lost
+      if (await umi.rpc.accountExists(assetSigner.publicKey)) {
+        log.info('Asset already created', { assetAddress: assetSigner.publicKey });
+        return assetSigner.publicKey.toString();
+      }
+      const collection = await getCollection(campaign);
+      log.info('Creating asset', { collection: collection.publicKey, uri });
+
+      // Mirror the main traits on chain so programs can read them without fetching the JSON
+      const attributeList = [
+        { key: 'Haiku', value: CONFIG.haiku },
+        { key: 'Mood', value: CONFIG.mood },
+        { key: 'Style', value: style || '' },
+        { key: 'Preset', value: preset || '' },
+      ].filter(attribute => attribute.value !== '');
+
+      // Create the asset
+      const builder = create(umi, {
+        asset: assetSigner,
+        collection,
+        name: CONFIG.imgName,
+        uri: uri,
+        plugins: [
+          royaltiesPlugin(ROYALTIES),
+          { type: 'Attributes', attributeList },
+        ],
+      });
+      const result = await (await withPriorityFee(builder)).sendAndConfirm(umi);
+
+      log.info('Asset created', { assetAddress: assetSigner.publicKey });
+
+      return assetSigner.publicKey.toString();
+    } catch (error) {
+      rpcErrors.inc({ operation: 'create_asset' });
+      log.error('Asset creation failed', { error });
+      throw error;
+    }
+  }
+
+  ///////// PRICING ////////
+
+  const MINT_PRICE_USD = settings.MINT_PRICE_USD;
 
-async function createURI(imagePath: string, CONFIG: NFTConfig): Promise<string> {
-try {
-  // Read the image file
-  const imageBuffer = await promise.readFile(imagePath);
+  // Style presets and image settings offered in the blink; HD and non-square images cost extra
+  const STYLE_PRESETS = loadStylePresets(env.STYLE_PRESETS_PATH);
+  const IMAGE_CHOICES = createImageChoices({
+    hdUsd: settings.HD_SURCHARGE_USD,
+    nonSquareUsd: settings.ASPECT_RATIO_SURCHARGE_USD,
+  });
+
+  // SOL plus every configured SPL token, the cluster's USDC by default
+  const PAYMENT_CURRENCIES = [
+    SOL_CURRENCY,
+    ...parsePaymentTokens(env.PAYMENT_TOKENS ?? (config.usdcMint ? `USDC:${config.usdcMint}:6` : ''), config.usdcMint ? [config.usdcMint] : []),
+  ];
+
+  // How long an order waits for its payment before it is dropped; its quote is locked for as long
+  const PAYMENT_EXPIRY_MS = settings.PAYMENT_EXPIRY_MS;
 
-  // Create a GenericFile object
-  const umiImageFile = createGenericFile(
-    imageBuffer,
-    CONFIG.imgFileName,
+  const pricing = createPricingEngine(
+    services.priceSources,
     {
-      displayName: CONFIG.imgName,
-      uniqueName: CONFIG.imgFileName,
-      contentType: CONFIG.imgType,
-      extension: CONFIG.imgFileName.split('.').pop() || 'png',
-      tags: [{ name: 'Content-Type', value: CONFIG.imgType }],
+      cacheTtlMs: settings.PRICE_CACHE_TTL_MS,
+      quoteTtlMs: PAYMENT_EXPIRY_MS,
+      maxDeviation: settings.PRICE_MAX_DEVIATION,
+      // A dry run has a single fixed price to agree with
+      minSources: services.dryRun ? 1 : settings.PRICE_MIN_SOURCES,
+      timeoutMs: settings.PRICE_SOURCE_TIMEOUT_MS,
     }
   );
 
-  // Upload the image and get its URI
-  const [imageUri] = await umi.uploader.upload([umiImageFile]);
-  if (!imageUri) {
-    throw new Error("Failed to upload image");
+  ///////// CAMPAIGNS ////////
+
+  // The original drop, configured from the environment; a campaign file with its id replaces it
+  const DEFAULT_CAMPAIGN: Campaign = {
+    id: DEFAULT_CAMPAIGN_ID,
+    title: 'Astrophant 🐘🪐',
+    icon: config.actionIcon,
+    label: 'Mint NFT',
+    description: 'AI-Powered NFT Mint.',
+    priceUsd: MINT_PRICE_USD,
+    stylePresets: STYLE_PRESETS,
+    prompts: DEFAULT_SYSTEM_PROMPTS,
+    collection: {
+      address: env.COLLECTION_ADDRESS,
+      statePath: COLLECTION_STATE_PATH,
+      name: env.COLLECTION_NAME || 'Astrophant',
+      description: env.COLLECTION_DESCRIPTION || 'AI-powered Astrophant NFTs 🐘🪐',
+      image: env.COLLECTION_IMAGE || config.actionIcon,
+    },
+  };
+
+  // One `<id>.json` per campaign, served at /campaigns/<id>/get_action
+  const CAMPAIGNS = new Map<string, Campaign>([
+    DEFAULT_CAMPAIGN,
+    ...loadCampaigns(env.CAMPAIGNS_DIR, {
+      stylePresets: STYLE_PRESETS,
+      prompts: DEFAULT_SYSTEM_PROMPTS,
+      stateDir: path.dirname(COLLECTION_STATE_PATH),
+    }),
+  ].map(campaign => [campaign.id, campaign]));
+  log.info('Campaigns loaded', { campaigns: [...CAMPAIGNS.keys()] });
+
+  // A created collection is only remembered on local disk, so instances sharing Redis would each create their own
+  if (env.REDIS_URL) {
+    const unpinned = [...CAMPAIGNS.values()].filter(campaign => !campaign.collection.address);
+    if (unpinned.length > 0) {
+      throw new ConfigError(unpinned.map(campaign => campaign.id === DEFAULT_CAMPAIGN_ID
+        ? 'COLLECTION_ADDRESS is required when REDIS_URL is set'
+        : `Campaign ${campaign.id}: collection.address is required when REDIS_URL is set`));
+    }
   }
-  console.log('Image uploaded, URI:', imageUri);
 
-  // Add the image URI to the config
-  const configWithUri = await updateConfigWithImageUri(CONFIG, imageUri)
-  console.log(configWithUri)
+  // Orders keep their campaign's collection and prompts, so one removed mid-order fails its stages
+  function campaignOf(job: MintJob): Campaign {
+    const campaign = CAMPAIGNS.get(campaignIdOf(job));
+    if (!campaign) {
+      throw new Error(`Campaign '${campaignIdOf(job)}' of order ${job.id} is no longer configured`);
+    }
+    return campaign;
+  }
 
-  // Upload the JSON metadata
-  const metadataUri = await umi.uploader.uploadJson(configWithUri);
-  if (!metadataUri) {
-    throw new Error("Failed to upload metadata");
+  // Blink icon for an order's cards; the app icon when its campaign is gone
+  function campaignIcon(job: MintJob): string {
+    return CAMPAIGNS.get(campaignIdOf(job))?.icon || config.actionIcon;
   }
 
-  return metadataUri;
+  ///////// API ROUTES ////////
+
+  // Create a new express application instance
+  const app: express.Application = express();
+
+  // Every request gets a correlation ID (the caller's X-Request-Id when it sends one) and a logger carrying it
+  app.use((req: Request, res: Response, next: express.NextFunction) => {
+    const requested = req.get('x-request-id');
+    const requestId = requested && /^[\w.-]{1,64}$/.test(requested) ? requested : randomUUID();
+    res.setHeader('X-Request-Id', requestId);
+    res.locals.requestId = requestId;
+    res.locals.log = log.child({ requestId });
+    res.on('finish', () => {
+      // Route patterns rather than raw paths keep the label set small
+      const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+      httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+    });
+    next();
+  });
+
+  function requestLog(res: Response): Logger {
+    return res.locals.log ?? log;
+  }
 
-} catch (error) {
-  console.error("Error in createURI:", error);
-  throw error;
-}
-}
+  // Spec headers (CORS, X-Action-Version, X-Blockchain-Ids) on every Actions route, preflight included
+  const ACTION_ROUTES = ['/actions.json', '/get_action', '/post_action', '/campaigns/:id/get_action', '/campaigns/:id/post_action', '/orders/:id/next', '/orders/:id/refresh', '/gifts/:id/claim', '/gifts/:id/claimed'];
+  const ACTION_VERSION = '2.2';
+  app.use(ACTION_ROUTES, actions.actionCorsMiddleware({
+    chainId: config.cluster === 'localnet' ? undefined : config.cluster,
+    actionVersion: ACTION_VERSION,
+  }));
+  app.options(ACTION_ROUTES, (req: Request, res: Response) => {
+    res.status(200).end();
+  });
 
-async function createAsset(CONFIG: NFTConfig, uri: string): Promise<string> {
-  try {
-    // Generate a new signer for the asset
-    const assetSigner = generateSigner(umi);
-    console.log(`Creating asset with metadata: ${uri}`)
+  app.use(cors());
+  // Behind Render's proxy the client address is in X-Forwarded-For; per-IP limits depend on it
+  app.set('trust proxy', settings.TRUST_PROXY);
 
-    // Create the asset
-    const result = await create(umi, {
-      asset: assetSigner,
-      name: CONFIG.imgName,
-      uri: uri,
-    }).sendAndConfirm(umi);
+  if (storage.localDir) {
+    app.use('/storage', express.static(storage.localDir));
+  }
 
-    console.log(`Asset address: ${assetSigner.publicKey}`);
+  // Operators can pause minting; the blink then renders disabled with the reason
+  const MINT_PAUSED_MESSAGE = env.MINT_PAUSED_MESSAGE || '';
 
-    return assetSigner.publicKey.toString();
-  } catch (error) {
-    console.error("Error in createAsset:", error);
-    throw error;
+  // Unfilled blink placeholders arrive as the literal `{name}`, which means "not chosen"
+  function queryOption(value: unknown): string | undefined {
+    if (typeof value !== 'string' || value.trim() === '' || /^\{.*\}$/.test(value.trim())) {
+      return undefined;
+    }
+    return value.trim();
+  }
+
+  function sendActionError(res: Response, status: number, message: string) {
+    const error: actions.ActionError = { message };
+    return res.status(status).json(error);
   }
-}
 
-async function findTransactionWithMemo(connection: web3.Connection, userAccount: web3.PublicKey, memo: string): Promise<web3.TransactionSignature | null> {
-  const maxChecks = 10;
-  let checkCount = 0;
+  // Absolute base for action links: the configured public URL, else wherever the request came in
+  function publicBaseUrl(req: Request): string {
+    return config.baseUrl || `${req.protocol}://${req.get('host')}`;
+  }
 
-  console.log(`Searching for memo: "${memo}"`);
+  // The unprefixed routes serve the default campaign
+  function requestedCampaign(req: Request): Campaign | undefined {
+    return CAMPAIGNS.get(req.params.id || DEFAULT_CAMPAIGN_ID);
+  }
+
+  function campaignPath(req: Request): string {
+    return req.params.id ? `/campaigns/${req.params.id}` : '';
+  }
 
-  while (checkCount < maxChecks) {
-    console.log(`Check ${checkCount + 1} of ${maxChecks}`);
+  app.get('/actions.json', (req: Request, res: Response) => {
+    const payload: actions.ActionsJson = {
+      rules: [
+        { pathPattern: '/', apiPath: '/get_action' },
+        { pathPattern: '/mint', apiPath: '/get_action' },
+        // Idempotent rule so clients can resolve the action URL itself
+        { pathPattern: '/get_action', apiPath: '/get_action' },
+        { pathPattern: '/campaigns/*/get_action', apiPath: '/campaigns/*/get_action' },
+        { pathPattern: '/campaigns/*', apiPath: '/campaigns/*/get_action' },
+      ],
+    };
+    res.status(200).json(payload);
+  });
+
+  async function getAction(req: Request, res: Response) {
+      try {
+        const campaign = requestedCampaign(req);
+        if (!campaign) {
+          return sendActionError(res, 404, 'Campaign not found');
+        }
+
+        // Paused, not open yet, over or sold out: the blink renders disabled with the reason
+        let closedMessage = MINT_PAUSED_MESSAGE;
+        let remaining: number | null = null;
+        try {
+          remaining = await campaignGate.check(campaign);
+        } catch (error) {
+          if (!(error instanceof CampaignClosedError)) throw error;
+          closedMessage = closedMessage || error.message;
+        }
+
+        const payload: actions.ActionGetResponse = {
+          type: "action",
+          icon: campaign.icon,
+          label: campaign.label,
+          title: campaign.title,
+          description: [
+            campaign.description,
+            `Mints start at $${campaign.priceUsd} USD, payable in ${PAYMENT_CURRENCIES.map(currency => currency.symbol).join(' or ')}.`,
+            remaining !== null ? `${remaining} of ${campaign.supply} left.` : '',
+          ].filter(part => part !== '').join(' '),
+          disabled: closedMessage !== '',
+          links: {
+            actions: [
+              {
+                type: "transaction",
+                label: campaign.label,
+                href: `${publicBaseUrl(req)}${campaignPath(req)}/post_action?user_prompt={prompt}&memo={memo}&public_note={public_note}&gift={gift}&currency={currency}&style={style}&quality={quality}&aspect_ratio={aspect_ratio}`,
+                parameters: [
+                  {
+                    name: "prompt",
+                    label: "Describe your NFT",
+                    required: true,
+                  },
+                  {
+                    name: "memo",
+                    label: "Add a personal note",
+                    required: true,
+                  },
+                  {
+                    type: "radio",
+                    name: "public_note",
+                    label: "Also write the note on chain?",
+                    required: false,
+                    options: [
+                      { label: "No, keep it in the NFT only", value: "no", selected: true },
+                      { label: "Yes, add it to the payment memo", value: "yes" },
+                    ],
+                  },
+                  {
+                    type: "select",
+                    name: "currency",
+                    label: "Pay with",
+                    required: false,
+                    options: PAYMENT_CURRENCIES.map((currency, i) => ({
+                      label: currency.symbol,
+                      value: currency.symbol,
+                      selected: i === 0,
+                    })),
+                  },
+                  {
+                    type: "select",
+                    name: "style",
+                    label: "Style",
+                    required: false,
+                    options: campaign.stylePresets.map((preset, i) => ({
+                      label: preset.label,
+                      value: preset.id,
+                      selected: i === 0,
+                    })),
+                  },
+                  {
+                    type: "radio",
+                    name: "quality",
+                    label: "Image quality",
+                    required: false,
+                    options: IMAGE_CHOICES.quality.map((choice, i) => ({
+                      label: choiceLabel(choice),
+                      value: choice.value,
+                      selected: i === 0,
+                    })),
+                  },
+                  {
+                    type: "select",
+                    name: "aspect_ratio",
+                    label: "Aspect ratio",
+                    required: false,
+                    options: IMAGE_CHOICES.aspectRatio.map((choice, i) => ({
+                      label: choiceLabel(choice),
+                      value: choice.value,
+                      selected: i === 0,
+                    })),
+                  },
+                  {
+                    name: "gift",
+                    label: "Gift it to this wallet; they claim it from a link (optional)",
+                    required: false,
+                  }
+                ]
+              }
+            ]
+          },
+          ...(closedMessage ? { error: { message: closedMessage } } : {}),
+        };
+  
+        res.status(200).json(payload);
+      } catch (error) {
+        requestLog(res).error('Error handling GET request', { error });
+        sendActionError(res, 500, "Internal Server Error");
+      }
+  }
+
+  // One route per path keeps the request metrics labelled by the pattern that matched
+  app.get('/get_action', getAction);
+  app.get('/campaigns/:id/get_action', getAction);
+
+  app.use(express.json());
+
+  // Abuse controls for order creation; Redis shares the counters between instances
+  const rateLimiter = createRateLimiter(
+    env.REDIS_URL ? createRedisLimiterStore(new Redis(env.REDIS_URL)) : createMemoryLimiterStore(),
+    {
+      windowMs: settings.RATE_LIMIT_WINDOW_MS,
+      perIp: settings.RATE_LIMIT_PER_IP,
+      perWallet: settings.RATE_LIMIT_PER_WALLET,
+      maxPendingPerWallet: settings.MAX_PENDING_PER_WALLET,
+      walletDenylist: (env.WALLET_DENYLIST || '').split(','),
+    }
+  );
+
+  function rejectLimited(res: Response, result: Exclude<RateLimitResult, { allowed: true }>) {
+    requestLog(res).info('Order rejected', { reason: result.reason });
+    if (result.retryAfterMs !== undefined) {
+      res.setHeader('Retry-After', Math.max(1, Math.ceil(result.retryAfterMs / 1000)).toString());
+    }
+    return sendActionError(res, result.reason === 'wallet_denied' ? 403 : 429, result.message);
+  }
+
+  async function postAction(req: Request, res: Response) {
+    // Unique order identity; the reference key lets us find the payment without trusting a memo
+    const orderId = randomUUID();
+    const reference = web3.Keypair.generate().publicKey;
+    const log = requestLog(res).child({ orderId });
+    let admittedTo: Campaign | undefined;
+
+    try {
+
+      if (MINT_PAUSED_MESSAGE) {
+        return sendActionError(res, 403, MINT_PAUSED_MESSAGE);
+      }
+      const campaign = requestedCampaign(req);
+      if (!campaign) {
+        return sendActionError(res, 404, 'Campaign not found');
+      }
+
+      // Cheap checks first, before any paid API call
+      const ipLimit = await rateLimiter.checkIp(req.ip || 'unknown');
+      if (!ipLimit.allowed) {
+        return rejectLimited(res, ipLimit);
+      }
+
+      // Validate body
+      const body: actions.ActionPostRequest = req.body;
+
+      // Validate and create user account
+      let userAccount: web3.PublicKey;
+      try {
+        userAccount = new web3.PublicKey(body.account);
+      } catch (error) {
+        return sendActionError(res, 400, 'Invalid account');
+      }
+
+      const walletLimit = await rateLimiter.checkWallet(userAccount.toString());
+      if (!walletLimit.allowed) {
+        return rejectLimited(res, walletLimit);
+      }
+
+      // Extract and validate query parameters; an empty prompt is turned away before any paid call
+      const prompt = queryOption(req.query.user_prompt) || '';
+      const note = queryOption(req.query.memo) || '';
+      if (prompt === '') {
+        return sendActionError(res, 400, 'Please describe the NFT you want to mint.');
+      }
+      const noteOnChain = req.query.public_note === 'yes' && note !== '';
+      let mintOptions: ReturnType<typeof resolveMintOptions>;
+      try {
+        mintOptions = resolveMintOptions({
+          style: queryOption(req.query.style),
+          quality: queryOption(req.query.quality),
+          aspectRatio: queryOption(req.query.aspect_ratio),
+        }, campaign.stylePresets, IMAGE_CHOICES);
+      } catch (error) {
+        if (error instanceof MintOptionError) {
+          return sendActionError(res, 400, `${error.message}, please pick one of the listed options.`);
+        }
+        throw error;
+      }
+
+      const currencySymbol = (queryOption(req.query.currency) || SOL_CURRENCY.symbol).toUpperCase();
+      const currency = PAYMENT_CURRENCIES.find(candidate => candidate.symbol === currencySymbol);
+      if (!currency) {
+        return sendActionError(res, 400, `Payment in ${currencySymbol} is not supported.`);
+      }
+      // Checked before the buyer pays: a typo or an off-curve (program-owned) address could never sign the claim
+      let giftPubKey = userAccount;
+      const giftAddress = queryOption(req.query.gift);
+      if (giftAddress) {
+        try {
+          giftPubKey = new web3.PublicKey(giftAddress);
+        } catch (error) {
+          return sendActionError(res, 400, 'The gift address is not a valid Solana address.');
+        }
+        if (!web3.PublicKey.isOnCurve(giftPubKey.toBytes())) {
+          return sendActionError(res, 400, 'The gift address must be a wallet address, not a program or token account.');
+        }
+      }
+
+
+      log.info('Order received', {
+        prompt,
+        note,
+        noteOnChain,
+        reference: reference.toString(),
+        userAccount: userAccount.toString(),
+        gift: giftPubKey.toString(),
+        currency: currency.symbol,
+        style: mintOptions.options.preset.id,
+        campaign: campaign.id,
+      });
+
+      // Perform safety checks on everything the user typed; an unavailable provider counts as a failure
+      let safety: SafetyResult;
+      try {
+        safety = await countSafetyOutages(safetyPipeline.checkTexts({ prompt, note }));
+      } catch (error) {
+        if (error instanceof SafetyUnavailableError) {
+          return sendActionError(res, 503, 'Our content filter is unavailable right now, please try again in a few minutes.');
+        }
+        throw error;
+      }
     
-    const signatures = await connection.getSignaturesForAddress(userAccount, 
-      { limit: 5 },
-      'confirmed'
-    );
-
-    for (const sigInfo of signatures) {
-      console.log(`Checking signature: ${sigInfo.signature}`);
-      console.log(`Signature memo: "${sigInfo.memo}"`);
-      
-      if (sigInfo.memo && sigInfo.memo.includes(memo)) {
-        console.log("Memo match found!");
-        return sigInfo.signature;
+      // If the prompt or note is flagged as unsafe, stop further execution
+      if (!safety.safe) {
+        const flagged = safety.verdicts.filter(verdict => verdict.flagged).map(verdict => verdict.subject);
+        return sendActionError(res, 422, `Your ${[...new Set(flagged)].join(' and ')} was flagged by our content filter, please rephrase it.`);
+      }
+
+      // Window and supply are enforced before anything is priced or built; an order that is never saved gives its slot back
+      try {
+        await campaignGate.admit(campaign, orderId);
+        admittedTo = campaign;
+      } catch (error) {
+        if (error instanceof CampaignClosedError) {
+          return sendActionError(res, error.status, error.message);
+        }
+        throw error;
+      }
+
+      // Establish connection
+      const connection = services.connection;
+
+      // Payment instructions; the compute budget is added once they are all known
+      const instructions: web3.TransactionInstruction[] = [];
+
+      // Lock the price for this order; without an agreed price there is nothing to charge
+      let quote: PriceQuote;
+      try {
+        quote = await pricing.quote(currency, campaign.priceUsd + mintOptions.surchargeUsd);
+      } catch (error) {
+        if (error instanceof PricingError) {
+          log.error('No quote for order', { error: error.message });
+          return sendActionError(res, 503, 'Pricing is unavailable right now, please try again in a few minutes.');
+        }
+        throw error;
+      }
+
+      // Add payment instruction, tagged with the order's reference as a read-only key
+      let paymentInstruction: web3.TransactionInstruction;
+      if (currency.mint) {
+        // Creates the minter's token account on first use; a no-op afterwards. It also puts the
+        // minter's wallet in the transaction, which is what the payment watcher listens on.
+        const mint = new web3.PublicKey(currency.mint);
+        instructions.push(createAssociatedTokenAccountIdempotentInstruction(userAccount, mintKeypair.publicKey, mint));
+        paymentInstruction = createTransferCheckedInstruction(mint, userAccount, mintKeypair.publicKey, quote.amount, currency.decimals);
       } else {
-        console.log("No match");
+        paymentInstruction = web3.SystemProgram.transfer({
+          fromPubkey: userAccount,
+          toPubkey: mintKeypair.publicKey,
+          lamports: quote.amount,
+        });
+      }
+      paymentInstruction.keys.push({ pubkey: reference, isSigner: false, isWritable: false });
+      instructions.push(paymentInstruction);
+
+      // Add memo instruction only if the user wants their note public
+      if (noteOnChain) {
+        instructions.push(
+          new web3.TransactionInstruction({
+            keys: [],
+            programId: MEMO_PROGRAM_ID,
+            data: Buffer.from(note, 'utf-8'),
+          })
+        );
       }
-    }
 
-    checkCount++;
+      // Size the compute budget by simulation and bid the current priority fee
+      const { transaction } = await countFailures(rpcErrors, 'build_payment',
+        buildPriorityTransaction(connection, userAccount, instructions, PRIORITY_FEE_POLICY, log));
+
+      // Create payload
+      const payload: actions.ActionPostResponse = await actions.createPostResponse({
+        fields: {
+          transaction: transaction,
+          message: 'Your NFT is on the way! Please WAIT A FEW MINUTES then check your wallet.',
+          type: 'transaction',
+          links: {
+            next: { type: 'post', href: `/orders/${orderId}/next` },
+          },
+        },
+      });
+
+      // Persist the order before answering so a restart can never lose it
+      const job = await mintQueue.enqueue({
+        id: orderId,
+        prompt,
+        note,
+        noteOnChain,
+        reference: reference.toString(),
+        paymentExpiresAt: quote.expiresAt,
+        userAccount: userAccount.toString(),
+        gift: giftPubKey.toString(),
+        quote,
+        options: mintOptions.options,
+        safetyVerdicts: safety.verdicts,
+        requestId: res.locals.requestId,
+        campaignId: campaign.id,
+      });
+      await rateLimiter.trackPending(job.userAccount, job.id, job.paymentExpiresAt);
+      log.info('Mint job queued');
+      res.status(200).json(payload);
 
-    if (checkCount < maxChecks) {
-      console.log("Waiting 5 seconds before next check...");
-      await new Promise(resolve => setTimeout(resolve, 5000));
+    } catch (err) {
+      log.error('Error in /post_action', { error: err });
+      sendActionError(res, 500, 'Something went wrong while preparing your mint, please try again.');
+    } finally {
+      if (admittedTo) {
+        await campaignGate.release(admittedTo, orderId)
+          .catch(error => log.error('Failed to release campaign slot', { error }));
+      }
     }
   }
-  console.log("Maximum checks reached, no matching memo found");
-  return null;
-}
 
-///////// API ROUTES ////////
+  app.post('/post_action', postAction);
+  app.post('/campaigns/:id/post_action', postAction);
 
-// Create a new express application instance
-const app: express.Application = express();
-app.use(cors());
+  ///////// ORDER STATUS ////////
 
-app.get('/get_action', async (req, res) => {
+  app.get('/orders/:id', async (req: Request, res: Response) => {
     try {
-      const payload: actions.ActionGetResponse = {
-        icon: new URL("https://i.imgur.com/02jEt0P.png").toString(), // astrophant background
-        label: "Mint NFT",
-        title: "Astrophant 🐘🪐",
-        description: "AI-Powered NFT Mint",
-        links: {
-          actions: [
-            {
-              type: "transaction",
-              label: "Mint NFT",
-              href: `https://actions-55pw.onrender.com/post_action?user_prompt={prompt}&memo={memo}&gift={gift}`, // prod href
-              //href: `http://localhost:8000/post_action?user_prompt={prompt}&memo={memo}&gift={gift}`, // dev href
-              parameters: [
-                {
-                  name: "prompt",
-                  label: "Describe your NFT",
-                  required: true,
-                },
-                {
-                  name: "memo",
-                  label: "Add a personal note",
-                  required: true,
-                },
-                {
-                  name: "gift",
-                  label: "Gift the NFT to this address (optional)",
-                  required: false,
-                }
-              ]
-            }
-          ]
-        },
-        error:{
-          message: "⚠️ A single mint costs $3 USD, payable in SOL."
-        },
-      };
-  
-      res.header(actions.ACTIONS_CORS_HEADERS).status(200).json(payload);
+      const job = await mintQueue.store.get(req.params.id);
+      if (!job) {
+        return res.header(actions.ACTIONS_CORS_HEADERS).status(404).json({ error: 'Order not found' });
+      }
+      res.header(actions.ACTIONS_CORS_HEADERS).status(200).json(describeOrder(job));
+    } catch (err) {
+      requestLog(res).error('Error in /orders/:id', { error: err });
+      res.status(500).json({ error: 'Internal Server Error' });
+    }
+  });
+
+  // Action chaining: the blink calls this once the payment transaction is confirmed
+  app.post('/orders/:id/next', async (req: Request, res: Response) => {
+    try {
+      const job = await mintQueue.store.get(req.params.id);
+      if (!job) {
+        return sendActionError(res, 404, 'Order not found');
+      }
+      const payload: actions.NextAction = buildNextAction(job, campaignIcon(job), claimBlinkUrl(req, job.id));
+      res.status(200).json(payload);
+    } catch (err) {
+      requestLog(res).error('Error in /orders/:id/next', { error: err });
+      sendActionError(res, 500, 'Internal Server Error');
+    }
+  });
+
+  // The progress card's refresh button; it simply chains back to the next action
+  app.post('/orders/:id/refresh', (req: Request, res: Response) => {
+    if (!isOrderId(req.params.id)) {
+      return sendActionError(res, 404, 'Order not found');
+    }
+    const payload: actions.ActionPostResponse = {
+      type: 'post',
+      links: {
+        next: { type: 'post', href: `/orders/${req.params.id}/next` },
+      },
+    };
+    res.status(200).json(payload);
+  });
+
+  ///////// MINT PIPELINE ////////
+
+  // Moderation runs on OpenAI, so an unavailable check counts as an OpenAI error
+  async function countSafetyOutages(check: Promise<SafetyResult>): Promise<SafetyResult> {
+    try {
+      return await check;
     } catch (error) {
-      console.error("Error handling GET request:", error);
-      res.status(500).json({ error: "Internal Server Error" });
+      if (error instanceof SafetyUnavailableError) {
+        openaiErrors.inc({ operation: 'moderation' });
+      }
+      throw error;
+    }
+  }
+
+  // Records the verdicts on the order and stops it for good if anything was flagged
+  function assertSafe(job: MintJob, result: SafetyResult): SafetyVerdict[] {
+    const safetyVerdicts = [...(job.safetyVerdicts || []), ...result.verdicts];
+    if (!result.safe) {
+      const flagged = result.verdicts.filter(verdict => verdict.flagged).map(verdict => verdict.subject);
+      throw new FatalStageError(`Generated ${[...new Set(flagged)].join(', ')} failed safety checks`, { safetyVerdicts });
     }
-});
+    return safetyVerdicts;
+  }
+
+  // The amount is locked in the order's quote, so only allow for wallets that round the transfer
+  const PAYMENT_TOLERANCE = settings.PAYMENT_TOLERANCE;
 
-app.options('/post_action', (req: Request, res: Response) => {
-  res.header(actions.ACTIONS_CORS_HEADERS).status(200).end();
-});
+  // One long-lived watcher resolves every pending order instead of a polling loop per request
+  const watcherConnection = services.connection;
+  const paymentWatcher = createPaymentWatcher(watcherConnection, {
+    recipient: mintKeypair.publicKey,
+    pollIntervalMs: settings.PAYMENT_POLL_INTERVAL_MS,
+  });
+
+  // Each stage returns the checkpoint it produced; the queue persists it before moving on
+  const mintStages: StageHandlers = {
+    payment: async (job, log) => {
+      const userAccount = new web3.PublicKey(job.userAccount);
+      const reference = new web3.PublicKey(job.reference);
+
+      const { signature, amount, rejections } = await paymentWatcher.waitForPayment({
+        orderId: job.id,
+        reference,
+        expiresAt: job.paymentExpiresAt,
+        verify: async (candidate, tx) => {
+          const verification = verifyPayment(tx, candidate, {
+            payer: userAccount,
+            recipient: mintKeypair.publicKey,
+            amount: job.quote.amount,
+            mint: job.quote.mint ? new web3.PublicKey(job.quote.mint) : undefined,
+            reference,
+            memo: job.noteOnChain ? job.note : undefined,
+            tolerance: PAYMENT_TOLERANCE,
+          });
+          if (!verification.valid) {
+            return verification;
+          }
+          // Recorded before the order moves on, so one transaction can never pay for two orders
+          const creditedTo = await mintQueue.store.creditPayment(candidate, job.id);
+          return creditedTo === job.id
+            ? verification
+            : { valid: false, reason: 'signature_already_used', detail: `Transaction already paid for order ${creditedTo}` };
+        },
+      });
+      const paymentRejections = [...(job.paymentRejections || []), ...rejections];
+      await rateLimiter.releasePending(job.userAccount, job.id);
 
-app.use(express.json());
-app.post('/post_action', async (req: Request, res: Response) => {
-  const randomNumber = Math.floor(Math.random() * 100000);
+      if (!signature) {
+        throw new OrderExpiredError('No verified payment found before the order expired', { paymentRejections });
+      }
+      log.info('Found payment', { signature, amount });
+      return { transactionSignature: signature, paidAmount: amount, paymentRejections };
+    },
 
-  try {
+    prompt: async (job, log) => {
+      const enhancedPrompt = await countFailures(openaiErrors, 'prompt', textGenerator.enhancePrompt(job.prompt, job.options.preset, campaignOf(job).prompts));
+      log.info('Prompt enhanced', { enhancedPrompt: enhancedPrompt.prompt, style: enhancedPrompt.style, mood: enhancedPrompt.mood });
 
-    // Validate body
-    const body: actions.ActionPostRequest = req.body;
+      const safetyVerdicts = assertSafe(job, await countSafetyOutages(safetyPipeline.checkTexts({
+        enhanced_prompt: enhancedPrompt.prompt,
+        style: enhancedPrompt.style,
+        mood: enhancedPrompt.mood,
+      })));
+      return { enhancedPrompt, safetyVerdicts };
+    },
 
-    // Extract and validate query parameters
-    const prompt = ((req.query.user_prompt as string) || '').trim();
-    const preMemo = ((req.query.memo as string) || '').trim();
-    const memo = preMemo + randomNumber.toString();
-    let giftPubKey : web3.PublicKey
+    config: async (job, log) => {
+      const config = await defineConfig(job.enhancedPrompt!, job.id, job.note, campaignOf(job).prompts);
+      log.info('Attributes generated', { title: config.imgName });
 
-    if (req.query.gift && req.query.gift != null) {
+      const safetyVerdicts = assertSafe(job, await countSafetyOutages(safetyPipeline.checkTexts({
+        title: config.imgName,
+        description: config.description,
+        haiku: config.haiku,
+      })));
+      return { config, safetyVerdicts };
+    },
 
-      giftPubKey =  new web3.PublicKey((req.query.gift as string).trim())
+    image: async (job, log) => {
+      const { prompt, style, mood } = job.enhancedPrompt!;
+      const presetStyle = job.options.preset.prompt ? `\nPreset: ${job.options.preset.prompt}` : '';
+      const generation = imagine(imageProvider, {
+        prompt: `${prompt}\nStyle: ${style}${presetStyle}\nMood: ${mood}`,
+        size: job.options.size,
+        quality: job.options.quality,
+      }, log);
+      const image = imageProvider.name === 'openai' ? await countFailures(openaiErrors, 'image', generation) : await generation;
+
+      const safetyVerdicts = assertSafe(job, await countSafetyOutages(safetyPipeline.checkImage('image', image.data, image.contentType)));
+      await mintQueue.store.saveArtifact(job.id, 'image', image.data);
+      return { imageArtifact: 'image', imageModel: image.model, safetyVerdicts };
+    },
 
-    }
-    else{
+    uri: async (job, log) => {
+      const imageBuffer = await mintQueue.store.loadArtifact(job.id, job.imageArtifact!);
+      if (!imageBuffer) {
+        throw new Error(`Generated image for order ${job.id} is missing from the job store`);
+      }
+      const { imageUri, metadataUri: uri } = await createURI(job.id, imageBuffer, job.config!, {
+        enhancedPrompt: job.enhancedPrompt!.prompt,
+        style: job.enhancedPrompt!.style,
+        preset: job.options.preset.label,
+        quality: job.options.quality,
+        aspectRatio: job.options.aspectRatio,
+        model: job.imageModel,
+        createdAt: job.createdAt,
+      }, log);
+      log.info('Metadata uploaded', { uri });
+
+      await mintQueue.store.deleteArtifact(job.id, job.imageArtifact!);
+      return { uri, imageUri, storageBackend: storage.name };
+    },
 
-      giftPubKey = new web3.PublicKey(body.account)
+    asset: async (job, log) => {
+      const assetAddress = await createAsset(job.id, job.config!, job.uri!, campaignOf(job), log, job.enhancedPrompt!.style, job.options.preset.label);
+      return { assetAddress };
+    },
 
-    }
+    transfer: async (job, log) => {
+      // Gifts stay with the minter until the recipient claims them
+      if (isGift(job)) {
+        const giftEscrow = gifts.hold();
+        log.info('Gift held in escrow', { recipient: job.gift, expiresAt: giftEscrow.expiresAt });
+        return { giftEscrow };
+      }
+      // A transfer that landed on an earlier attempt would fail every retry
+      if (await assetOwner(job.assetAddress!) === job.userAccount) {
+        log.info('NFT already transferred', { recipient: job.userAccount });
+        return {};
+      }
+      const transferSignature = await transferNFT(job, new web3.PublicKey(job.userAccount), log);
+      return { transferSignature: base58.deserialize(transferSignature)[0] };
+    },
+  };
 
+  // Progress events feed the Socket.IO stream and outbound webhooks
+  const mintEvents = createEventBus();
 
-    console.log('User prompt:', prompt);
-    console.log('User random memo:', memo);
-    console.log('Optional gift recipient: ', giftPubKey.toString())
+  const webhookRegistry = createWebhookRegistry(env.WEBHOOK_STORE_PATH || './data/webhooks.json');
+  startWebhookDispatcher(webhookRegistry, mintEvents, {
+    maxAttempts: settings.WEBHOOK_MAX_ATTEMPTS,
+    backoffMs: settings.WEBHOOK_BACKOFF_MS,
+    timeoutMs: 10_000,
+  });
 
-    // Perform safety check
-    const safetyCheck = await safePrompting(prompt);
-    
-    // If the prompt is flagged as unsafe, stop further execution
-    if (safetyCheck !== 'safe') {
-      return res.status(400).json({ error: 'Prompt failed safety checks' });
+  const mintQueue = createMintQueue(mintStages, {
+    redisUrl: env.REDIS_URL,
+    storePath: env.JOB_STORE_PATH || './jobs/',
+    maxAttempts: settings.JOB_MAX_ATTEMPTS,
+    backoffMs: settings.JOB_BACKOFF_MS,
+    concurrency: settings.JOB_CONCURRENCY,
+    paymentConcurrency: settings.PAYMENT_CONCURRENCY,
+    events: mintEvents,
+    onAttempt: (attempt) => {
+      stageDuration.observe({ stage: attempt.stage, outcome: attempt.outcome }, (attempt.finishedAt - attempt.startedAt) / 1000);
+    },
+    onDead: async (job) => {
+      // The user paid but will never get their NFT, so give the money back
+      if (job.transactionSignature && !(await deliveredToBuyer(job))) {
+        await countFailures(rpcErrors, 'refund', refundOrder(job.id, `Failed at stage '${job.stage}': ${job.lastError}`));
+      }
+    },
+    onExpired: (job) => campaignGate.free(job),
+  });
+
+  const refunder = createRefunder(mintQueue.store, watcherConnection, mintKeypair, {
+    deductNetworkFee: settings.REFUND_DEDUCT_NETWORK_FEE,
+  });
+
+  const campaignGate = createCampaignGate(mintQueue.store);
+
+  // Refunded orders give their campaign slot back
+  async function refundOrder(jobId: string, reason: string): Promise<MintJob> {
+    const job = await refunder.refund(jobId, reason);
+    await campaignGate.free(job);
+    return job;
+  }
+
+  const gifts: GiftEscrow = createGiftEscrow(mintQueue.store, {
+    minter: mintKeypair.publicKey.toString(),
+    ownerOf: assetOwner,
+    async transfer(job, newOwner) {
+      const signature = await transferNFT(job, new web3.PublicKey(newOwner), log.child({ orderId: job.id, operation: 'gift_return' }));
+      return base58.deserialize(signature)[0];
+    },
+  }, {
+    claimTtlMs: settings.GIFT_CLAIM_TTL_MS,
+    sweepIntervalMs: settings.GIFT_SWEEP_INTERVAL_MS,
+    events: mintEvents,
+  });
+
+  // Orders still in the pipeline, by the stage they are waiting on
+  metrics.gauge('pending_orders', 'Orders in the pipeline by stage', async (gauge) => {
+    const jobs = await mintQueue.store.list();
+    for (const stage of MINT_STAGES) {
+      gauge.set({ stage }, jobs.filter(job => job.status === 'pending' && job.stage === stage).length);
+    }
+  });
+
+  async function assetOwner(assetAddress: string): Promise<string> {
+    return (await fetchAssetV1(umi, publicKey(assetAddress))).owner.toString();
+  }
+
+  // A job that died after its transfer landed must not be refunded as well
+  async function deliveredToBuyer(job: MintJob): Promise<boolean> {
+    if (!job.assetAddress || await assetOwner(job.assetAddress) !== job.userAccount) {
+      return false;
     }
+    log.warn('Dead order already delivered its NFT, not refunding', { orderId: job.id, assetAddress: job.assetAddress });
+    return true;
+  }
 
-    // Validate and create user account
-    let userAccount: web3.PublicKey;
+  async function transferNFT(job: MintJob, newOwner: web3.PublicKey, log: Logger) {
     try {
-      userAccount = new web3.PublicKey(body.account);
+      const collection = await getCollection(campaignOf(job));
+      const result = await (await withPriorityFee(transferV1(umi, {
+        asset: publicKey(job.assetAddress!),
+        collection: collection.publicKey,
+        newOwner: publicKey(newOwner)
+      }))).sendAndConfirm(umi);
+
+      log.info('NFT transferred', { recipient: newOwner.toString() });
+      return result.signature;
     } catch (error) {
-      return res.status(400).json({ error: 'Invalid account' });
-    }
-
-    // Establish connection
-    const connection = await createNewConnection(QUICKNODE_RPC);
-
-    // Prepare transaction
-    const transaction = new web3.Transaction();
-
-    // Get the latest blockhash
-    const { blockhash } = await connection.getLatestBlockhash();
-
-    // Get fee details
-    const mintingFee = await getFeeInLamports();
-    const mintingFeeSOL = mintingFee / web3.LAMPORTS_PER_SOL;
-    console.log(`Fee for this transaction -> ${mintingFee} lamports or ${mintingFeeSOL} SOL.`);
-
-    // Add payment instruction
-    transaction.add(
-      web3.SystemProgram.transfer({
-        fromPubkey: userAccount,
-        toPubkey: mintKeypair.publicKey,
-        lamports: mintingFee,
-      })
-    );
-
-    // Add memo instruction
-    transaction.add(
-      new web3.TransactionInstruction({
-        keys: [],
-        programId: MEMO_PROGRAM_ID,
-        data: Buffer.from(memo, 'utf-8'),
-      })
-    );
-
-    // Set computational resources for transaction
-    transaction.add(web3.ComputeBudgetProgram.setComputeUnitLimit({ units: 20_000 }));
-    transaction.add(web3.ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 100 }));
-
-    // Finalize transaction details
-    transaction.recentBlockhash = blockhash;
-    transaction.feePayer = userAccount;
-
-    // Create payload
-    const payload: actions.ActionPostResponse = await actions.createPostResponse({
-      fields: {
-        transaction: transaction,
-        message: 'Your NFT is on the way! Please WAIT A FEW MINUTES then check your wallet.',
-        type: 'transaction',
-      },
+      rpcErrors.inc({ operation: 'transfer' });
+      log.error('Transfer failed', { error });
+      throw error;
+    }
+  }
+
+  ///////// GIFTS ////////
+
+  // The blink the buyer passes on to the recipient
+  function claimBlinkUrl(req: Request, orderId: string): string {
+    const actionUrl = `${publicBaseUrl(req)}/gifts/${orderId}/claim`;
+    return `https://dial.to/?action=${encodeURIComponent(`solana-action:${actionUrl}`)}&cluster=${config.cluster}`;
+  }
+
+  // The minter pays and signs the escrow transfer; the recipient co-signs a memo, which proves they hold the gift address
+  async function buildClaimTransaction(job: MintJob, recipient: web3.PublicKey, log: Logger) {
+    const collection = await getCollection(campaignOf(job));
+    const transfer = transferV1(umi, {
+      asset: publicKey(job.assetAddress!),
+      collection: collection.publicKey,
+      newOwner: publicKey(recipient),
+    }).getInstructions().map(toWeb3JsInstruction);
+    const claimMemo = new web3.TransactionInstruction({
+      keys: [{ pubkey: recipient, isSigner: true, isWritable: false }],
+      programId: MEMO_PROGRAM_ID,
+      data: Buffer.from(`claim:${job.id}`, 'utf-8'),
     });
+    const { transaction } = await countFailures(rpcErrors, 'build_claim',
+      buildPriorityTransaction(rpcConnection, mintKeypair.publicKey, [...transfer, claimMemo], PRIORITY_FEE_POLICY, log));
+    return transaction;
+  }
 
-    // Validate payload and prompt before sending response
-    if (payload && prompt && prompt.trim() !== '' && prompt !== '{prompt}' && safetyCheck == 'safe') {
+  app.get('/gifts/:id/claim', async (req: Request, res: Response) => {
+    try {
+      const job = await mintQueue.store.get(req.params.id);
+      let claimError: string | undefined;
+      try {
+        gifts.assertClaimable(job);
+      } catch (error) {
+        if (!(error instanceof GiftClaimError)) throw error;
+        if (error.status === 404) {
+          return sendActionError(res, 404, error.message);
+        }
+        claimError = error.message;
+      }
+
+      const note = job!.note ? `\nTheir note: "${job!.note}"` : '';
+      const payload: actions.ActionGetResponse = {
+        type: "action",
+        icon: job!.imageUri || campaignIcon(job!),
+        label: "Claim gift",
+        title: `${job!.config?.imgName || 'An Astrophant NFT'} 🎁`,
+        description: `${job!.userAccount} sent you an NFT. Connect ${job!.gift} to claim it before ${new Date(job!.giftEscrow!.expiresAt).toUTCString()}.${note}`,
+        disabled: claimError !== undefined,
+        ...(claimError ? { error: { message: claimError } } : {}),
+      };
       res.status(200).json(payload);
-      await processPostTransaction(prompt, connection, userAccount, memo, preMemo, randomNumber, giftPubKey);
-    } else {
-      return res.status(400).json({ error: 'Invalid payload or prompt' });
+    } catch (err) {
+      requestLog(res).error('Error in /gifts/:id/claim', { error: err });
+      sendActionError(res, 500, 'Internal Server Error');
     }
+  });
 
-  } catch (err) {
-    console.error('Error in /post_action:', err);
-    const message = err instanceof Error ? err.message : 'An unknown error occurred';
-    res.status(500).json({ error: message });
-  }
-});
+  app.post('/gifts/:id/claim', async (req: Request, res: Response) => {
+    const log = requestLog(res).child({ orderId: req.params.id });
+    try {
+      const body: actions.ActionPostRequest = req.body;
+      let recipient: web3.PublicKey;
+      try {
+        recipient = new web3.PublicKey(body.account);
+      } catch (error) {
+        return sendActionError(res, 400, 'Invalid account');
+      }
+
+      const job = await gifts.sync(req.params.id);
+      gifts.assertClaimable(job, recipient.toString());
+
+      const transaction = await buildClaimTransaction(job, recipient, log);
+      const payload: actions.ActionPostResponse = await actions.createPostResponse({
+        fields: {
+          type: 'transaction',
+          transaction,
+          message: 'Approve to move the gift into your wallet.',
+          links: {
+            next: { type: 'post', href: `/gifts/${job.id}/claimed` },
+          },
+        },
+        signers: [mintKeypair],
+      });
+      log.info('Claim transaction issued', { recipient: recipient.toString() });
+      res.status(200).json(payload);
+    } catch (err) {
+      if (err instanceof GiftClaimError) {
+        return sendActionError(res, err.status, err.message);
+      }
+      log.error('Error in /gifts/:id/claim', { error: err });
+      sendActionError(res, 500, 'Something went wrong while preparing your claim, please try again.');
+    }
+  });
 
-async function processPostTransaction(prompt: string, connection: web3.Connection, user_account: web3.PublicKey, memo:string, pre_memo:string, randomNumber: number, gift: web3.PublicKey) {
+  // Action chaining after the claim is signed; reads the asset's owner to confirm it
+  app.post('/gifts/:id/claimed', async (req: Request, res: Response) => {
+    try {
+      const job = await gifts.sync(req.params.id);
+      if (!job?.giftEscrow) {
+        return sendActionError(res, 404, 'Gift not found');
+      }
+
+      const claimed = job.giftEscrow.status === 'claimed';
+      const payload: actions.NextAction = claimed
+        ? {
+          type: 'completed',
+          icon: job.imageUri || campaignIcon(job),
+          title: job.config?.imgName || 'Your gift',
+          label: 'Claimed!',
+          description: `The NFT is in your wallet 📬\nAsset: https://core.metaplex.com/explorer/${job.assetAddress}`,
+        }
+        : {
+          type: 'action',
+          icon: job.imageUri || campaignIcon(job),
+          title: 'Confirming your claim',
+          label: 'Refresh',
+          description: 'Waiting for the claim transaction to confirm ⏳',
+          links: {
+            actions: [{ type: 'post', label: 'Refresh', href: `/gifts/${job.id}/claimed` }],
+          },
+        };
+      res.status(200).json(payload);
+    } catch (err) {
+      requestLog(res).error('Error in /gifts/:id/claimed', { error: err });
+      sendActionError(res, 500, 'Internal Server Error');
+    }
+  });
 
-  const transactionSignature = await findTransactionWithMemo(connection, user_account, memo);
+  ///////// OPERATOR ROUTES ////////
 
-  if (transactionSignature) {
-    console.log(`Found transaction with memo: ${transactionSignature}`);
-    try{
+  // Compares the Authorization header with `Bearer <token>` in constant time
+  function hasBearerToken(req: Request, token: string): boolean {
+    const provided = Buffer.from((req.headers.authorization as string) || '');
+    const expected = Buffer.from(`Bearer ${token}`);
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+  }
 
-      const llmSays = await generatePrompt(prompt);
-      console.log(`LLM prompt 🤖-> ${llmSays}`);
+  // Operator routes stay disabled unless ADMIN_API_KEY is set
+  function requireAdmin(req: Request, res: Response, next: express.NextFunction) {
+    const adminKey = env.ADMIN_API_KEY;
+    if (!adminKey) {
+      return res.status(503).json({ error: 'Admin API is disabled' });
+    }
+    if (!hasBearerToken(req, adminKey)) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    next();
+  }
 
-      const CONFIG = await defineConfig(llmSays, randomNumber, pre_memo);
-      const imageName = `'${CONFIG.imgName}'`
-      console.log(`Image Name -> ${imageName}`)
-      
-      console.log("Creating image 🎨 ...");
-      const imagePath = await imagine(llmSays, CONFIG, randomNumber);
-      console.log(imagePath)
+  const ORDER_STATUSES: MintJobStatus[] = ['pending', 'completed', 'expired', 'dead', 'refunded', 'resolved'];
+  const ADMIN_PAGE_LIMIT = 200;
 
-      console.log("Creating URI 🔗 ...");
-      const uri = await createURI(imagePath, CONFIG);
-      console.log("Metadata URI created:", uri);
+  const OPENAI_SPEND_RATES: OpenAISpendRates = {
+    llmCallUsd: settings.OPENAI_LLM_CALL_USD ?? DEFAULT_OPENAI_SPEND_RATES.llmCallUsd,
+    image: DEFAULT_OPENAI_SPEND_RATES.image,
+  };
 
-      // Delete local image file
-      fs.unlink(imagePath, (err) => {
-        if (err) {
-          console.error('Failed to delete the local image file:', err);
-        } else {
-          console.log(`Local image file deleted successfully 🗑️`);
-        }
+  // Accepts ms since the epoch or anything Date.parse understands
+  function parseDateParam(value: unknown): number | undefined {
+    if (typeof value !== 'string' || value === '') {
+      return undefined;
+    }
+    const parsed = /^\d+$/.test(value) ? parseInt(value) : Date.parse(value);
+    if (isNaN(parsed)) {
+      throw new Error(`Invalid date '${value}'`);
+    }
+    return parsed;
+  }
+
+  app.get('/admin/orders', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const status = queryOption(req.query.status) as MintJobStatus | undefined;
+      if (status && !ORDER_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `Unknown status '${status}'` });
+      }
+      let from: number | undefined, to: number | undefined;
+      try {
+        from = parseDateParam(req.query.from);
+        to = parseDateParam(req.query.to);
+      } catch (err) {
+        return res.status(400).json({ error: (err as Error).message });
+      }
+
+      const { total, orders } = filterOrders(await mintQueue.store.list(), {
+        wallet: queryOption(req.query.wallet),
+        status,
+        campaign: queryOption(req.query.campaign),
+        from,
+        to,
+        limit: Math.min(ADMIN_PAGE_LIMIT, parseInt(queryOption(req.query.limit) || '50') || 50),
+        offset: parseInt(queryOption(req.query.offset) || '0') || 0,
       });
+      res.status(200).json({
+        total,
+        orders: orders.map(job => ({
+          id: job.id,
+          status: job.status,
+          stage: job.stage,
+          userAccount: job.userAccount,
+          gift: job.gift,
+          campaign: campaignIdOf(job),
+          currency: job.quote.currency,
+          amount: job.quote.amount,
+          paidAmount: job.paidAmount,
+          lastError: job.lastError,
+          createdAt: job.createdAt,
+          updatedAt: job.updatedAt,
+        })),
+      });
+    } catch (err) {
+      requestLog(res).error('Error listing orders', { error: err });
+      res.status(500).json({ error: 'Internal Server Error' });
+    }
+  });
 
-      console.log("Creating asset ⛏️ ...");
-      const newAssetAddress = await createAsset(CONFIG, uri);
+  // The full order, including its stage history, signatures and operator log
+  app.get('/admin/orders/:id', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const job = await mintQueue.store.get(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+      res.status(200).json(job);
+    } catch (err) {
+      requestLog(res).error('Error fetching order', { error: err });
+      res.status(500).json({ error: 'Internal Server Error' });
+    }
+  });
 
-      console.log(`Transferring your NFT 📬`);
-      await transferNFT(new web3.PublicKey(newAssetAddress), user_account, gift);
-  
-      console.log("Process completed successfully!");
+  app.post('/admin/orders/:id/rerun', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const stage = req.body?.stage as MintStage | undefined;
+      if (stage !== undefined && !MINT_STAGES.includes(stage)) {
+        return res.status(400).json({ error: `Unknown stage '${stage}'` });
+      }
+      const job = await mintQueue.rerun(req.params.id, stage);
+      await campaignGate.restore(job);
+      res.status(202).json({ id: job.id, status: job.status, stage: job.stage });
+    } catch (err) {
+      if (err instanceof JobStateError) {
+        return res.status(409).json({ error: err.message });
+      }
+      requestLog(res).error('Error re-running order', { error: err });
+      const message = err instanceof Error ? err.message : 'An unknown error occurred';
+      res.status(500).json({ error: message });
+    }
+  });
 
+  app.post('/admin/orders/:id/resolve', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const note = ((req.body?.note as string) || '').trim();
+      if (!note) {
+        return res.status(400).json({ error: 'A note explaining the resolution is required' });
+      }
+      const job = await mintQueue.resolve(req.params.id, note);
+      res.status(200).json({ id: job.id, status: job.status, operatorLog: job.operatorLog });
+    } catch (err) {
+      if (err instanceof JobStateError) {
+        return res.status(409).json({ error: err.message });
+      }
+      requestLog(res).error('Error resolving order', { error: err });
+      const message = err instanceof Error ? err.message : 'An unknown error occurred';
+      res.status(500).json({ error: message });
     }
-    catch(error){
-      console.error("An error occurred in the post-transaction process:", error);
-      throw error;
+  });
+
+  app.get('/admin/stats', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      let from: number | undefined, to: number | undefined;
+      try {
+        from = parseDateParam(req.query.from);
+        to = parseDateParam(req.query.to);
+      } catch (err) {
+        return res.status(400).json({ error: (err as Error).message });
+      }
+      const jobs = await mintQueue.store.list();
+      const { orders } = filterOrders(jobs, { from, to, limit: jobs.length, offset: 0 });
+      res.status(200).json(computeOrderStats(orders, OPENAI_SPEND_RATES));
+    } catch (err) {
+      requestLog(res).error('Error computing stats', { error: err });
+      res.status(500).json({ error: 'Internal Server Error' });
     }
-  } else {
-    console.log('Transaction with memo not found within the timeout period');
-  }
-}
+  });
 
-async function transferNFT(newAssetAddress: web3.PublicKey, user_account: web3.PublicKey, gift: web3.PublicKey) {
-  try {
+  app.post('/admin/orders/:id/refund', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const reason = ((req.body?.reason as string) || '').trim() || 'Manual refund by operator';
+      const job = await refundOrder(req.params.id, reason);
+      res.status(200).json({ id: job.id, status: job.status, refund: job.refund });
+    } catch (err) {
+      if (err instanceof RefundError) {
+        return res.status(409).json({ error: err.message });
+      }
+      requestLog(res).error('Error in manual refund', { error: err });
+      const message = err instanceof Error ? err.message : 'An unknown error occurred';
+      res.status(500).json({ error: message });
+    }
+  });
 
-    if (gift && gift.toString() !== user_account.toString()) {
-      const result = await transferV1(umi, {
-        asset: publicKey(newAssetAddress),
-        newOwner: publicKey(gift)
-      }).sendAndConfirm(umi);
+  app.get('/admin/webhooks', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const webhooks = await webhookRegistry.list();
+      // Secrets are only shown once, at registration
+      res.status(200).json(webhooks.map(({ secret, ...webhook }) => webhook));
+    } catch (err) {
+      requestLog(res).error('Error listing webhooks', { error: err });
+      res.status(500).json({ error: 'Internal Server Error' });
+    }
+  });
 
-      console.log(`NFT gifted to: ${gift.toString()}`);
-      return result.signature;
-    } else {
-      const result = await transferV1(umi, {
-        asset: publicKey(newAssetAddress),
-        newOwner: publicKey(user_account)
-      }).sendAndConfirm(umi);
+  app.post('/admin/webhooks', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const url = req.body?.url;
+      const events: MintEventType[] = Array.isArray(req.body?.events) ? req.body.events : [];
+      if (typeof url !== 'string' || !/^https?:\/\//.test(url)) {
+        return res.status(400).json({ error: 'A valid http(s) url is required' });
+      }
+      const unknownEvents = events.filter(event => !MINT_EVENT_TYPES.includes(event));
+      if (unknownEvents.length > 0) {
+        return res.status(400).json({ error: `Unknown event types: ${unknownEvents.join(', ')}` });
+      }
+      const webhook = await webhookRegistry.register(url, events);
+      res.status(201).json(webhook);
+    } catch (err) {
+      requestLog(res).error('Error registering webhook', { error: err });
+      const message = err instanceof Error ? err.message : 'An unknown error occurred';
+      res.status(500).json({ error: message });
+    }
+  });
 
-      console.log(`NFT transferred to user: ${user_account.toString()}`);
-      return result.signature;
+  app.delete('/admin/webhooks/:id', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const removed = await webhookRegistry.remove(req.params.id);
+      res.status(removed ? 204 : 404).end();
+    } catch (err) {
+      requestLog(res).error('Error removing webhook', { error: err });
+      res.status(500).json({ error: 'Internal Server Error' });
     }
+  });
 
-  } catch (error) {
-    console.error('Error transferring NFT to user:', error);
-    throw error;
-  }
-}
+  ///////// METRICS ////////
 
-// Start dev server
-// const port: number = process.env.PORT ? parseInt(process.env.PORT) : 8000;
-// app.listen(port, () => {
-//   console.log(`Listening at http://localhost:${port}/`);
-//   console.log(`Test your blinks http://localhost:${port}/get_action \n at https://www.dial.to/`)
-// });
-
-// Start prod server
-const port: number = process.env.PORT ? parseInt(process.env.PORT) : 8000;
-app.listen(port, '0.0.0.0', () => {
-  console.log(`Server is running on http://0.0.0.0:${port}`);
-  console.log(`Mint your blinks at https://dial.to/?action=solana-action%3Ahttps%3A%2F%2Factions-55pw.onrender.com%2Fget_action&cluster=mainnet`)
-});
-
-export default app;
+  // Prometheus scrape endpoint; set METRICS_TOKEN to require it as a bearer token
+  app.get('/metrics', async (req: Request, res: Response) => {
+    if (env.METRICS_TOKEN && !hasBearerToken(req, env.METRICS_TOKEN)) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    try {
+      res.status(200).type(METRICS_CONTENT_TYPE).send(await metrics.render());
+    } catch (err) {
+      requestLog(res).error('Error rendering metrics', { error: err });
+      res.status(500).json({ error: 'Internal Server Error' });
+    }
+  });
+
+  return {
+    app,
+    events: mintEvents,
+    mintQueue,
+    async start() {
+      await mintQueue.start();
+      gifts.start();
+    },
+  };
+}
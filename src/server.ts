@@ -0,0 +1,49 @@
+import dotenv from 'dotenv';
+import { createApp } from './app'
+import { loadConfig } from './utils/config'
+import { configureLogger, logger, LogLevel } from './utils/logger'
+import { createDryRunServices, createServices, fundDryRunMinter } from './utils/services'
+import { attachSocketServer } from './utils/socket'
+
+// Load environment variable
+dotenv.config();
+
+// JSON log lines; user-provided text is redacted unless LOG_REDACT says otherwise
+configureLogger({
+  level: (process.env.LOG_LEVEL || 'info') as LogLevel,
+  ...(process.env.LOG_REDACT !== undefined
+    ? { redact: process.env.LOG_REDACT.split(',').map(field => field.trim()).filter(field => field !== '') }
+    : {}),
+});
+const log = logger.child({ module: 'server' });
+
+// Cluster profile (APP_PROFILE=localnet|devnet|mainnet); fails fast on a bad setup
+const config = loadConfig();
+
+// DRY_RUN=true keeps the chain real but fakes OpenAI, the price feeds and storage
+const dryRun = process.env.DRY_RUN === 'true';
+const services = dryRun ? createDryRunServices(config, process.env) : createServices(config, process.env);
+const { app, events, start } = createApp(config, services);
+
+async function main() {
+  if (dryRun) {
+    await fundDryRunMinter(services);
+  }
+  start().catch(error => log.error('Failed to start mint worker', { error }));
+
+  const server = app.listen(config.port, config.host, () => {
+    const actionUrl = `${config.baseUrl || `http://localhost:${config.port}`}/get_action`;
+    log.info('Server is running', {
+      url: `http://${config.host}:${config.port}`,
+      dryRun,
+      minter: services.minter.publicKey.toString(),
+      dialUrl: `https://dial.to/?action=${encodeURIComponent(`solana-action:${actionUrl}`)}&cluster=${config.cluster}`,
+    });
+  });
+  attachSocketServer(server, events);
+}
+
+main().catch(error => {
+  log.error('Failed to start', { error });
+  process.exit(1);
+});
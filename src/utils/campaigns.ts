@@ -0,0 +1,228 @@
+import * as path from 'path';
+import { readdirSync, readFileSync } from 'fs';
+import { z } from 'zod';
+import { MintJob, MintJobStatus, StylePreset } from './interfaces'
+import { CollectionOptions } from './collection'
+import { ConfigError } from './config'
+import { JobStore } from './jobStore'
+import { StylePresetCatalogueSchema } from './presets'
+import { SystemPrompts } from './textGenerator'
+
+// A drop served by this server, with its own blink, price, styles, prompts and collection
+export interface Campaign {
+  id: string;
+  title: string;
+  icon: string;
+  label: string;
+  // Shown in the blink ahead of the price
+  description: string;
+  priceUsd: number;
+  stylePresets: StylePreset[];
+  prompts: SystemPrompts;
+  // Symbol and royalties are shared by every campaign
+  collection: Omit<CollectionOptions, 'symbol' | 'royalties'>;
+  // Most orders the campaign takes; unpaid orders hold their slot until they expire, paid ones unless refunded
+  supply?: number;
+  // Mint window, in ms since the epoch
+  startsAt?: number;
+  endsAt?: number;
+}
+
+// Settings a campaign file may leave out
+export interface CampaignDefaults {
+  stylePresets: StylePreset[];
+  prompts: SystemPrompts;
+  // Where created collections are remembered, as `collection-<id>.json`
+  stateDir: string;
+}
+
+// The campaign behind /get_action and /post_action, and of orders placed before campaigns existed
+export const DEFAULT_CAMPAIGN_ID = 'astrophant';
+
+const CampaignFileSchema = z.object({
+  title: z.string().min(1).max(128),
+  icon: z.string().url(),
+  label: z.string().min(1).max(32).default('Mint NFT'),
+  description: z.string().max(500).default(''),
+  priceUsd: z.number().positive(),
+  stylePresets: StylePresetCatalogueSchema.optional(),
+  prompts: z.object({
+    enhance: z.string().min(1).optional(),
+    describe: z.string().min(1).optional(),
+  }).default({}),
+  collection: z.object({
+    address: z.string().min(32).max(44).optional(),
+    name: z.string().min(1).max(32),
+    description: z.string().max(500).default(''),
+    image: z.string().url().optional(),
+  }),
+  supply: z.number().int().positive().optional(),
+  startsAt: z.string().datetime({ offset: true }).optional(),
+  endsAt: z.string().datetime({ offset: true }).optional(),
+}).refine(
+  file => !file.startsAt || !file.endsAt || Date.parse(file.startsAt) < Date.parse(file.endsAt),
+  { message: 'endsAt must be after startsAt', path: ['endsAt'] }
+);
+
+// The campaign cannot take orders right now (not started, ended or sold out)
+export class CampaignClosedError extends Error {
+  constructor(message: string, public status = 403) {
+    super(message);
+    this.name = 'CampaignClosedError';
+  }
+}
+
+// Orders that give their slot back
+const FREED_STATUSES: MintJobStatus[] = ['expired', 'refunded'];
+
+function readCampaignFile(filePath: string, id: string, defaults: CampaignDefaults): Campaign {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new ConfigError([`Campaign ${filePath} could not be read: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+  const result = CampaignFileSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ConfigError(result.error.issues.map(issue => `${filePath} ${issue.path.join('.')}: ${issue.message}`));
+  }
+
+  const file = result.data;
+  return {
+    id,
+    title: file.title,
+    icon: file.icon,
+    label: file.label,
+    description: file.description,
+    priceUsd: file.priceUsd,
+    stylePresets: file.stylePresets || defaults.stylePresets,
+    prompts: { ...defaults.prompts, ...file.prompts },
+    collection: {
+      address: file.collection.address,
+      statePath: path.join(defaults.stateDir, `collection-${id}.json`),
+      name: file.collection.name,
+      description: file.collection.description,
+      image: file.collection.image || file.icon,
+    },
+    supply: file.supply,
+    startsAt: file.startsAt ? Date.parse(file.startsAt) : undefined,
+    endsAt: file.endsAt ? Date.parse(file.endsAt) : undefined,
+  };
+}
+
+/**
+ * Reads one campaign per `<id>.json` file in `dir`; the file name is the id used in
+ * `/campaigns/<id>/...`. Throws a ConfigError listing every problem of the first bad file.
+ */
+export function loadCampaigns(dir: string | undefined, defaults: CampaignDefaults): Campaign[] {
+  if (!dir) {
+    return [];
+  }
+  return readdirSync(dir)
+    .filter(name => name.endsWith('.json'))
+    .sort()
+    .map(name => {
+      const id = path.basename(name, '.json');
+      if (!/^[a-z0-9-]+$/.test(id)) {
+        throw new ConfigError([`Campaign file ${name}: ids are lowercase letters, digits and dashes`]);
+      }
+      return readCampaignFile(path.join(dir, name), id, defaults);
+    });
+}
+
+export function campaignIdOf(job: MintJob): string {
+  return job.campaignId || DEFAULT_CAMPAIGN_ID;
+}
+
+// Throws a CampaignClosedError outside the campaign's mint window
+function assertCampaignOpen(campaign: Campaign, now = Date.now()) {
+  if (campaign.startsAt !== undefined && now < campaign.startsAt) {
+    throw new CampaignClosedError(`${campaign.title} opens on ${new Date(campaign.startsAt).toUTCString()}.`);
+  }
+  if (campaign.endsAt !== undefined && now >= campaign.endsAt) {
+    throw new CampaignClosedError(`${campaign.title} has ended.`);
+  }
+}
+
+export interface CampaignGate {
+  // Orders the campaign can still take (null without a supply cap); throws a CampaignClosedError when it takes none
+  check(campaign: Campaign): Promise<number | null>;
+  // Checks the window and holds a slot for `orderId`; throws a CampaignClosedError
+  admit(campaign: Campaign, orderId: string): Promise<void>;
+  // Gives back the slot of an admitted order that was never saved; a no-op once it is
+  release(campaign: Campaign, orderId: string): Promise<void>;
+  // Gives back the slot of an order that expired or was refunded
+  free(job: MintJob): Promise<void>;
+  // Takes the slot back for a re-run order, even past the cap since an operator asked for it
+  restore(job: MintJob): Promise<void>;
+}
+
+/**
+ * Enforces each campaign's window and supply cap. Slots are counted in the job store, which
+ * takes them atomically, so several instances cannot oversell the last ones. The first check
+ * of a capped campaign in a process counts the orders placed before its slots were tracked.
+ */
+export function createCampaignGate(store: JobStore): CampaignGate {
+  const seeded = new Map<string, Promise<void>>();
+
+  function seed(campaign: Campaign): Promise<void> {
+    let seeding = seeded.get(campaign.id);
+    if (!seeding) {
+      seeding = store.list().then(async jobs => {
+        for (const job of jobs) {
+          if (campaignIdOf(job) === campaign.id && !FREED_STATUSES.includes(job.status)) {
+            await store.holdSlot(campaign.id, job.id, Number.MAX_SAFE_INTEGER);
+          }
+        }
+      });
+      // A failed seed is retried by the next request
+      seeding.catch(() => seeded.delete(campaign.id));
+      seeded.set(campaign.id, seeding);
+    }
+    return seeding;
+  }
+
+  function soldOut(campaign: Campaign) {
+    return new CampaignClosedError(`${campaign.title} is sold out.`, 409);
+  }
+
+  return {
+    async check(campaign) {
+      assertCampaignOpen(campaign);
+      if (campaign.supply === undefined) {
+        return null;
+      }
+      await seed(campaign);
+      const remaining = campaign.supply - await store.countSlots(campaign.id);
+      if (remaining <= 0) {
+        throw soldOut(campaign);
+      }
+      return remaining;
+    },
+
+    async admit(campaign, orderId) {
+      assertCampaignOpen(campaign);
+      if (campaign.supply === undefined) {
+        return;
+      }
+      await seed(campaign);
+      if (!await store.holdSlot(campaign.id, orderId, campaign.supply)) {
+        throw soldOut(campaign);
+      }
+    },
+
+    async release(campaign, orderId) {
+      if (campaign.supply !== undefined && !await store.get(orderId)) {
+        await store.freeSlot(campaign.id, orderId);
+      }
+    },
+
+    async free(job) {
+      await store.freeSlot(campaignIdOf(job), job.id);
+    },
+
+    async restore(job) {
+      await store.holdSlot(campaignIdOf(job), job.id, Number.MAX_SAFE_INTEGER);
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import * as path from 'path';
+import { promises, mkdirSync } from 'fs';
+import { Umi, generateSigner, publicKey } from '@metaplex-foundation/umi';
+import { CollectionV1, createCollection, fetchCollectionV1, ruleSet } from '@metaplex-foundation/mpl-core';
+import { StorageBackend, uploadJson } from './storage'
+import { logger } from './logger'
+
+export interface RoyaltyCreator {
+  address: string;
+  percentage: number;
+}
+
+export interface RoyaltyConfig {
+  basisPoints: number;
+  creators: RoyaltyCreator[];
+}
+
+export interface CollectionOptions {
+  // Existing collection to mint into; when unset one is created and remembered in `statePath`,
+  // which only a single instance can rely on
+  address?: string;
+  statePath: string;
+  name: string;
+  symbol: string;
+  description: string;
+  image: string;
+  royalties: RoyaltyConfig;
+}
+
+const log = logger.child({ module: 'collection' });
+
+// Parses `address:percentage,address:percentage`; shares must add up to 100
+export function parseRoyaltyCreators(value: string): RoyaltyCreator[] {
+  const creators = value.split(',').map(entry => {
+    const [address, percentage] = entry.trim().split(':');
+    if (!address || !percentage || isNaN(parseInt(percentage))) {
+      throw new Error(`Invalid royalty creator '${entry}', expected <address>:<percentage>`);
+    }
+    return { address, percentage: parseInt(percentage) };
+  });
+
+  const total = creators.reduce((sum, creator) => sum + creator.percentage, 0);
+  if (total !== 100) {
+    throw new Error(`Royalty creator shares add up to ${total}, expected 100`);
+  }
+  return creators;
+}
+
+export function royaltiesPlugin(royalties: RoyaltyConfig) {
+  return {
+    type: 'Royalties' as const,
+    basisPoints: royalties.basisPoints,
+    creators: royalties.creators.map(creator => ({
+      address: publicKey(creator.address),
+      percentage: creator.percentage,
+    })),
+    ruleSet: ruleSet('None'),
+  };
+}
+
+async function readSavedAddress(statePath: string): Promise<string | null> {
+  try {
+    const state = JSON.parse(await promises.readFile(statePath, 'utf-8'));
+    return state.address || null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Returns the collection every asset is minted into, creating it (with its metadata and the
+ * Royalties plugin) the first time the app runs without a configured address.
+ */
+export async function ensureCollection(umi: Umi, storage: StorageBackend, options: CollectionOptions): Promise<CollectionV1> {
+  const address = options.address || await readSavedAddress(options.statePath);
+  if (address) {
+    return fetchCollectionV1(umi, publicKey(address));
+  }
+
+  log.info('No collection configured, creating one', { name: options.name });
+  const collectionSigner = generateSigner(umi);
+
+  const uri = await uploadJson(storage, `collection/${collectionSigner.publicKey}.json`, {
+    name: options.name,
+    symbol: options.symbol,
+    description: options.description,
+    image: options.image,
+  });
+
+  await createCollection(umi, {
+    collection: collectionSigner,
+    name: options.name,
+    uri,
+    plugins: [royaltiesPlugin(options.royalties)],
+  }).sendAndConfirm(umi);
+
+  mkdirSync(path.dirname(options.statePath), { recursive: true });
+  await promises.writeFile(options.statePath, JSON.stringify({ address: collectionSigner.publicKey.toString() }, null, 2));
+  log.info('Collection created, set COLLECTION_ADDRESS to pin it', { address: collectionSigner.publicKey });
+
+  return fetchCollectionV1(umi, collectionSigner.publicKey);
+}
@@ -0,0 +1,176 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+
+export type Cluster = 'localnet' | 'devnet' | 'mainnet';
+
+export interface AppConfig {
+  cluster: Cluster;
+  rpcUrl: string;
+  // Public URL of this server; when unset, action links are built from the incoming request
+  baseUrl?: string;
+  host: string;
+  port: number;
+  actionIcon: string;
+  llmModel: string;
+  // Circle's USDC on this cluster, offered as a payment currency when known
+  usdcMint?: string;
+}
+
+export class ConfigError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid configuration:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+const ConfigSchema = z.object({
+  cluster: z.enum(['localnet', 'devnet', 'mainnet']),
+  rpcUrl: z.string().url(),
+  baseUrl: z.string().url().transform(url => url.replace(/\/+$/, '')).optional(),
+  host: z.string().min(1),
+  port: z.coerce.number().int().min(1).max(65535),
+  actionIcon: z.string().url(),
+  llmModel: z.string().min(1),
+  usdcMint: z.string().min(32).max(44).optional(),
+});
+
+const SHARED_DEFAULTS = {
+  host: '0.0.0.0',
+  port: 8000,
+  actionIcon: 'https://i.imgur.com/02jEt0P.png', // astrophant background
+  llmModel: 'gpt-4o-2024-08-06',
+};
+
+function profileDefaults(cluster: Cluster, env: NodeJS.ProcessEnv): Partial<AppConfig> {
+  switch (cluster) {
+    case 'localnet':
+      return { ...SHARED_DEFAULTS, host: '127.0.0.1', rpcUrl: 'http://127.0.0.1:8899' };
+    case 'devnet':
+      return {
+        ...SHARED_DEFAULTS,
+        rpcUrl: env.QUICKNODE_DEVNET_KEY
+          ? `https://fragrant-ancient-needle.solana-devnet.quiknode.pro/${env.QUICKNODE_DEVNET_KEY}/`
+          : 'https://api.devnet.solana.com',
+        usdcMint: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+      };
+    case 'mainnet':
+      return {
+        ...SHARED_DEFAULTS,
+        rpcUrl: env.QUICKNODE_MAINNET_KEY
+          ? `https://winter-solemn-sun.solana-mainnet.quiknode.pro/${env.QUICKNODE_MAINNET_KEY}/`
+          : 'https://api.mainnet-beta.solana.com',
+        usdcMint: 'EPjFWdd5AufSkqNjwqLnbHg7XK1gKzsrJwGckVq9rP1K',
+      };
+  }
+}
+
+function readConfigFile(filePath: string): Partial<AppConfig> {
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new ConfigError([`CONFIG_FILE ${filePath} could not be read: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+}
+
+// Drops unset variables so they do not shadow the profile or file values
+function fromEnv(env: NodeJS.ProcessEnv): Partial<Record<keyof AppConfig, string>> {
+  const values = {
+    rpcUrl: env.SOLANA_RPC_URL,
+    baseUrl: env.PUBLIC_BASE_URL,
+    host: env.HOST,
+    port: env.PORT,
+    actionIcon: env.ACTION_ICON_URL,
+    llmModel: env.LLM_MODEL,
+    usdcMint: env.USDC_MINT,
+  };
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined && value !== ''));
+}
+
+/**
+ * Resolves the app configuration for the cluster named by `APP_PROFILE` (mainnet by default).
+ * Profile defaults are overridden by the optional JSON file at `CONFIG_FILE`, which is in turn
+ * overridden by individual environment variables. Throws a ConfigError listing every problem.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const file = env.CONFIG_FILE ? readConfigFile(env.CONFIG_FILE) : {};
+  const cluster = (env.APP_PROFILE || file.cluster || 'mainnet') as Cluster;
+  if (!['localnet', 'devnet', 'mainnet'].includes(cluster)) {
+    throw new ConfigError([`APP_PROFILE must be one of localnet, devnet or mainnet, got '${cluster}'`]);
+  }
+
+  const result = ConfigSchema.safeParse({ ...profileDefaults(cluster, env), ...file, ...fromEnv(env), cluster });
+  if (!result.success) {
+    throw new ConfigError(result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`));
+  }
+  return result.data;
+}
+
+// Unset and empty variables fall back to the default
+const count = (fallback: number) => z.coerce.number().int().positive().default(fallback);
+const amount = (fallback: number) => z.coerce.number().min(0).default(fallback);
+const flag = z.enum(['true', 'false']).default('false').transform(value => value === 'true');
+
+// Express accepts a hop count, true/false or a list of trusted addresses
+const TrustProxySchema = z.string().transform((value): number | boolean | string =>
+  value === 'true' ? true : value === 'false' ? false : /^\d+$/.test(value) ? parseInt(value) : value
+).default('1');
+
+const SettingsSchema = z.object({
+  // Priority fees and compute budgets
+  PRIORITY_FEE_PERCENTILE: z.coerce.number().int().min(0).max(100).default(75),
+  PRIORITY_FEE_MIN_MICROLAMPORTS: z.coerce.number().int().min(0).default(100),
+  PRIORITY_FEE_MAX_MICROLAMPORTS: count(1_000_000),
+  COMPUTE_UNIT_MARGIN: z.coerce.number().min(1).default(1.2),
+  COMPUTE_UNIT_FALLBACK: count(200_000),
+  ROYALTY_BASIS_POINTS: z.coerce.number().int().min(0).max(10_000).default(500),
+
+  // Pricing, in USD unless noted
+  MINT_PRICE_USD: z.coerce.number().positive().default(3),
+  HD_SURCHARGE_USD: amount(1),
+  ASPECT_RATIO_SURCHARGE_USD: amount(0.5),
+  PAYMENT_EXPIRY_MS: count(15 * 60 * 1000),
+  PRICE_CACHE_TTL_MS: count(60_000),
+  PRICE_MAX_DEVIATION: z.coerce.number().positive().max(1).default(0.02),
+  PRICE_MIN_SOURCES: count(2),
+  PRICE_SOURCE_TIMEOUT_MS: count(5000),
+  DRY_RUN_SOL_PRICE: z.coerce.number().positive().default(100),
+  // Fraction of the quote a payment may fall short by
+  PAYMENT_TOLERANCE: z.coerce.number().min(0).max(1).default(0),
+  PAYMENT_POLL_INTERVAL_MS: count(10_000),
+  OPENAI_LLM_CALL_USD: z.coerce.number().min(0).optional(),
+  LLM_MAX_RETRIES: z.coerce.number().int().min(0).default(2),
+
+  // Rate limits
+  RATE_LIMIT_WINDOW_MS: count(60_000),
+  RATE_LIMIT_PER_IP: count(10),
+  RATE_LIMIT_PER_WALLET: count(5),
+  MAX_PENDING_PER_WALLET: count(3),
+  TRUST_PROXY: TrustProxySchema,
+
+  // Mint queue, webhooks, refunds and gifts
+  JOB_MAX_ATTEMPTS: count(5),
+  JOB_BACKOFF_MS: count(5000),
+  JOB_CONCURRENCY: count(20),
+  PAYMENT_CONCURRENCY: count(1000),
+  WEBHOOK_MAX_ATTEMPTS: count(5),
+  WEBHOOK_BACKOFF_MS: count(2000),
+  REFUND_DEDUCT_NETWORK_FEE: flag,
+  GIFT_CLAIM_TTL_MS: count(7 * 24 * 60 * 60 * 1000),
+  GIFT_SWEEP_INTERVAL_MS: count(15 * 60 * 1000),
+});
+
+// Numeric and boolean tuning knobs, under their environment variable names
+export type AppSettings = z.infer<typeof SettingsSchema>;
+
+/**
+ * Validates the tuning settings read from the environment, so a typo fails at startup instead
+ * of turning into NaN. Throws a ConfigError listing every bad variable.
+ */
+export function loadSettings(env: NodeJS.ProcessEnv = process.env): AppSettings {
+  const set = Object.fromEntries(Object.entries(env).filter(([, value]) => value !== undefined && value !== ''));
+  const result = SettingsSchema.safeParse(set);
+  if (!result.success) {
+    throw new ConfigError(result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`));
+  }
+  return result.data;
+}
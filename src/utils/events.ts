@@ -0,0 +1,50 @@
+import { EventEmitter } from 'events';
+import { MintEvent, MintEventType, MintJob, MintStage } from './interfaces'
+import { describeOrder } from './orderStatus'
+
+// Stages without an entry (e.g. 'config') are internal steps nobody needs to hear about
+const STAGE_EVENTS: Partial<Record<MintStage, MintEventType>> = {
+  payment: 'payment.found',
+  prompt: 'prompt.enhanced',
+  image: 'image.generated',
+  uri: 'metadata.uploaded',
+  asset: 'asset.created',
+  transfer: 'nft.transferred',
+};
+
+export const MINT_EVENT_TYPES: MintEventType[] = [...Object.values(STAGE_EVENTS), 'gift.escrowed', 'gift.claimed', 'gift.returned', 'order.failed'];
+
+export interface EventBus {
+  emit(event: MintEvent): void;
+  subscribe(listener: (event: MintEvent) => void): () => void;
+}
+
+export function createEventBus(): EventBus {
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0);
+
+  return {
+    emit(event) {
+      emitter.emit('mint_event', event);
+    },
+    subscribe(listener) {
+      emitter.on('mint_event', listener);
+      return () => emitter.off('mint_event', listener);
+    },
+  };
+}
+
+export function createMintEvent(type: MintEventType, job: MintJob): MintEvent {
+  return {
+    type,
+    orderId: job.id,
+    timestamp: Date.now(),
+    order: describeOrder(job),
+  };
+}
+
+export function stageEvent(stage: MintStage, job: MintJob): MintEvent | null {
+  // A gift's transfer stage only puts the asset in escrow
+  const type = stage === 'transfer' && job.giftEscrow ? 'gift.escrowed' : STAGE_EVENTS[stage];
+  return type ? createMintEvent(type, job) : null;
+}
@@ -1,48 +1,180 @@
 import OpenAI from 'openai';
-import dotenv from 'dotenv';
-import * as path from 'path';
 import axios from 'axios';
-import { NFTConfig } from './interfaces'
-import { promises, mkdirSync } from 'fs';
+import { createHash } from 'crypto';
+import { deflateSync } from 'zlib';
+import { Logger, logger } from './logger'
 
-dotenv.config();
+export type ImageQuality = 'standard' | 'hd';
 
-const oai_client = new OpenAI({apiKey: process.env['OPENAI_API_KEY']});
+export interface ImageRequest {
+  prompt: string;
+  // `<width>x<height>`, e.g. `1024x1024`
+  size: string;
+  quality: ImageQuality;
+}
 
-export async function imagine(userPrompt: string, CONFIG: NFTConfig, randomNumber: number) {
+export interface GeneratedImage {
+  data: Buffer;
+  contentType: string;
+  model: string;
+}
 
-    try{
-  
+export interface ImageProvider {
+  name: string;
+  generate(request: ImageRequest): Promise<GeneratedImage>;
+}
+
+export interface ImageProviderConfig {
+  provider: string;
+  openai?: OpenAI;
+  openaiModel?: string;
+  stableDiffusionUrl?: string;
+}
+
+function parseSize(size: string): { width: number; height: number } {
+  const match = /^(\d+)x(\d+)$/.exec(size);
+  if (!match) {
+    throw new Error(`Invalid image size '${size}', expected <width>x<height>`);
+  }
+  return { width: parseInt(match[1]), height: parseInt(match[2]) };
+}
+
+export function createOpenAIImageProvider(oai_client: OpenAI, model = 'dall-e-3'): ImageProvider {
+  return {
+    name: 'openai',
+    async generate({ prompt, size, quality }) {
       const response = await oai_client.images.generate({
-        model: "dall-e-3",
-        prompt: userPrompt + ' . Begin!',
+        model,
+        prompt: prompt + ' . Begin!',
         n: 1,
-        size: "1024x1024",
-        quality:'standard' // OR 'hd'
-      });
-      const imageUrl = response.data[0].url;
-  
-      // Fetch the image from the URL
-      const imageResponse = await axios({
-        url: imageUrl,
-        method: 'GET',
-        responseType: 'arraybuffer'
+        size: size as OpenAI.ImageGenerateParams['size'],
+        quality,
+        response_format: 'b64_json',
       });
-  
-      const imagePath = path.join(CONFIG.uploadPath, `${CONFIG.imgName}_${randomNumber}.png`);
-  
-      // Ensure the directory exists
-      mkdirSync(path.dirname(imagePath), { recursive: true });
-  
-      // Write the image data to a file
-      await promises.writeFile(imagePath, imageResponse.data);
-      console.log(imagePath)
-  
-      return imagePath;
-      
-    } catch (error) {
-      console.error("Error in createImage:", error);
-      throw error;
+
+      const b64 = response.data?.[0]?.b64_json;
+      if (!b64) {
+        throw new Error('OpenAI returned no image data');
+      }
+      return { data: Buffer.from(b64, 'base64'), contentType: 'image/png', model };
+    },
+  };
+}
+
+/**
+ * Talks to any server exposing the Automatic1111 `txt2img` API, which ComfyUI and most
+ * self-hosted Stable Diffusion front ends can also serve.
+ */
+export function createStableDiffusionProvider(baseUrl: string): ImageProvider {
+  return {
+    name: 'stable-diffusion',
+    async generate({ prompt, size, quality }) {
+      const { width, height } = parseSize(size);
+      const response = await axios.post(`${baseUrl.replace(/\/$/, '')}/sdapi/v1/txt2img`, {
+        prompt,
+        width,
+        height,
+        steps: quality === 'hd' ? 50 : 25,
+        batch_size: 1,
+      }, { timeout: 5 * 60 * 1000 });
+
+      const b64 = response.data?.images?.[0];
+      if (!b64) {
+        throw new Error('Stable Diffusion endpoint returned no image data');
+      }
+      return { data: Buffer.from(b64, 'base64'), contentType: 'image/png', model: 'stable-diffusion' };
+    },
+  };
+}
+
+function crc32(buffer: Buffer): number {
+  let crc = ~0;
+  for (const byte of buffer) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) {
+      crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
     }
-  
-}
\ No newline at end of file
+  }
+  return ~crc >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Offline stand-in for local runs: an 8x8 colour grid derived from the prompt's hash,
+ * so the same prompt always produces the same PNG.
+ */
+export function createPlaceholderProvider(): ImageProvider {
+  return {
+    name: 'placeholder',
+    async generate({ prompt, size }) {
+      const { width, height } = parseSize(size);
+      const seed = Buffer.concat([
+        createHash('sha256').update(prompt).digest(),
+        createHash('sha256').update(`${prompt}:2`).digest(),
+        createHash('sha256').update(`${prompt}:3`).digest(),
+      ]);
+
+      // Each row: filter byte 0 followed by RGB pixels
+      const raw = Buffer.alloc((width * 3 + 1) * height);
+      for (let y = 0; y < height; y++) {
+        const rowStart = y * (width * 3 + 1);
+        for (let x = 0; x < width; x++) {
+          const cell = (Math.floor(y * 8 / height) * 8 + Math.floor(x * 8 / width)) % 32;
+          seed.copy(raw, rowStart + 1 + x * 3, cell * 3, cell * 3 + 3);
+        }
+      }
+
+      const header = Buffer.alloc(13);
+      header.writeUInt32BE(width, 0);
+      header.writeUInt32BE(height, 4);
+      header.writeUInt8(8, 8); // bit depth
+      header.writeUInt8(2, 9); // colour type: truecolour
+
+      const data = Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', deflateSync(raw)),
+        pngChunk('IEND', Buffer.alloc(0)),
+      ]);
+      return { data, contentType: 'image/png', model: 'placeholder' };
+    },
+  };
+}
+
+export function createImageProvider(config: ImageProviderConfig): ImageProvider {
+  switch (config.provider) {
+    case 'openai':
+      if (!config.openai) {
+        throw new Error('The openai image provider needs an OpenAI client');
+      }
+      return createOpenAIImageProvider(config.openai, config.openaiModel);
+    case 'stable-diffusion':
+      if (!config.stableDiffusionUrl) {
+        throw new Error('The stable-diffusion image provider needs a Stable Diffusion API url');
+      }
+      return createStableDiffusionProvider(config.stableDiffusionUrl);
+    case 'placeholder':
+      return createPlaceholderProvider();
+    default:
+      throw new Error(`Unknown image provider '${config.provider}'`);
+  }
+}
+
+export async function imagine(provider: ImageProvider, request: ImageRequest, log: Logger = logger): Promise<GeneratedImage> {
+  try {
+    const image = await provider.generate(request);
+    log.info('Image generated', { provider: provider.name, model: image.model, bytes: image.data.length });
+    return image;
+  } catch (error) {
+    log.error('Image generation failed', { provider: provider.name, error });
+    throw error;
+  }
+}
@@ -0,0 +1,149 @@
+import { GiftEscrowRecord, MintJob } from './interfaces'
+import { JobStore } from './jobStore'
+import { EventBus, createMintEvent } from './events'
+import { logger } from './logger'
+
+// What the escrow needs from the chain; the minter's wallet is the escrow
+export interface GiftChain {
+  minter: string;
+  ownerOf(assetAddress: string): Promise<string>;
+  // Moves the order's asset out of the minter's wallet and returns the signature
+  transfer(job: MintJob, newOwner: string): Promise<string>;
+}
+
+export interface GiftEscrowOptions {
+  // How long the recipient has to claim before the asset goes back to the buyer
+  claimTtlMs: number;
+  sweepIntervalMs: number;
+  events?: EventBus;
+}
+
+export interface GiftEscrow {
+  // Checkpoint for a freshly minted gift
+  hold(): GiftEscrowRecord;
+  // Throws a GiftClaimError unless `claimant` may claim the gift right now
+  assertClaimable(job: MintJob | null, claimant?: string): asserts job is MintJob;
+  // Reconciles the order with where the asset actually is
+  sync(jobId: string): Promise<MintJob | null>;
+  // Returns every expired, unclaimed gift to its buyer
+  sweep(): Promise<void>;
+  start(): void;
+  stop(): void;
+}
+
+// The gift cannot be claimed (wrong wallet, expired, already claimed)
+export class GiftClaimError extends Error {
+  constructor(message: string, public status = 409) {
+    super(message);
+    this.name = 'GiftClaimError';
+  }
+}
+
+const log = logger.child({ module: 'giftEscrow' });
+
+export function isGift(job: MintJob): boolean {
+  return job.gift !== job.userAccount;
+}
+
+/**
+ * Keeps minted gifts in the minter's wallet until the recipient claims them. The claim itself is a
+ * transaction the recipient signs, so the escrow only watches where the asset ends up: in the
+ * recipient's wallet it is claimed, and once the claim window is over it is sent back to the buyer.
+ */
+export function createGiftEscrow(store: JobStore, chain: GiftChain, options: GiftEscrowOptions): GiftEscrow {
+  let timer: NodeJS.Timeout | null = null;
+  let sweeping = false;
+
+  async function record(job: MintJob, update: Partial<GiftEscrowRecord>) {
+    job.giftEscrow = { ...job.giftEscrow!, ...update };
+    job.updatedAt = Date.now();
+    await store.save(job);
+    const type = update.status === 'claimed' ? 'gift.claimed' : update.status === 'returned' ? 'gift.returned' : null;
+    if (type) {
+      options.events?.emit(createMintEvent(type, job));
+      log.info(`Gift ${update.status}`, { orderId: job.id, recipient: job.gift });
+    }
+  }
+
+  async function reconcile(job: MintJob): Promise<MintJob> {
+    if (job.giftEscrow?.status !== 'escrowed' || !job.assetAddress) {
+      return job;
+    }
+    const owner = await chain.ownerOf(job.assetAddress);
+    if (owner === job.gift) {
+      await record(job, { status: 'claimed', claimedAt: Date.now() });
+    } else if (owner === job.userAccount) {
+      // A return that landed before we could record it
+      await record(job, { status: 'returned', returnedAt: Date.now() });
+    } else if (owner !== chain.minter) {
+      log.error('Escrowed asset left the minter wallet unexpectedly', { orderId: job.id, owner });
+    }
+    return job;
+  }
+
+  const escrow: GiftEscrow = {
+    hold() {
+      return { status: 'escrowed', expiresAt: Date.now() + options.claimTtlMs };
+    },
+
+    assertClaimable(job, claimant) {
+      if (!job || job.status !== 'completed' || !job.giftEscrow) {
+        throw new GiftClaimError('This gift does not exist or is not ready yet', 404);
+      }
+      if (job.giftEscrow.status === 'claimed') {
+        throw new GiftClaimError('This gift has already been claimed');
+      }
+      if (job.giftEscrow.status === 'returned' || Date.now() >= job.giftEscrow.expiresAt) {
+        throw new GiftClaimError('This gift has expired and went back to the sender');
+      }
+      if (claimant !== undefined && claimant !== job.gift) {
+        throw new GiftClaimError('This gift was sent to a different wallet', 403);
+      }
+    },
+
+    async sync(jobId) {
+      const job = await store.get(jobId);
+      return job ? reconcile(job) : null;
+    },
+
+    async sweep() {
+      if (sweeping) return;
+      sweeping = true;
+      try {
+        const expired = (await store.list()).filter(job =>
+          job.giftEscrow?.status === 'escrowed' && job.giftEscrow.expiresAt <= Date.now()
+        );
+        for (const job of expired) {
+          try {
+            await reconcile(job);
+            if (job.giftEscrow!.status !== 'escrowed') continue;
+            const returnSignature = await chain.transfer(job, job.userAccount);
+            await record(job, { status: 'returned', returnedAt: Date.now(), returnSignature });
+          } catch (error) {
+            // Retried on the next sweep; reconcile notices a return that landed anyway
+            log.error('Failed to return unclaimed gift', { orderId: job.id, error });
+          }
+        }
+      } finally {
+        sweeping = false;
+      }
+    },
+
+    start() {
+      if (timer === null) {
+        timer = setInterval(() => {
+          escrow.sweep().catch(error => log.error('Gift sweep failed', { error }));
+        }, options.sweepIntervalMs);
+      }
+    },
+
+    stop() {
+      if (timer !== null) {
+        clearInterval(timer);
+        timer = null;
+      }
+    },
+  };
+
+  return escrow;
+}
@@ -1,19 +1,260 @@
+import { EnhancedPrompt } from './llmSchemas'
+import { ImageQuality } from './generateImage'
+
+// Internal per-order config produced by the LLM; never uploaded as is (see NftMetadata)
 export interface NFTConfig {
-  uploadPath: string;
   imgFileName: string;
   imgType: string;
   imgName: string;
   description: string;
+  mood: string;
+  haiku: string;
+  note: string;
+}
+
+// Metaplex JSON metadata standard, the document the asset's `uri` points at
+export interface NftMetadata {
+  name: string;
+  symbol: string;
+  description: string;
   image: string;
-  attributes: Array<{
-    trait_type: string;
-    value: string;
-  }>;
+  external_url?: string;
+  attributes: NftAttribute[];
   properties: {
     files: Array<{
       uri: string;
       type: string;
     }>;
-    category: string;
+    category: 'image';
   };
 }
+
+export interface NftAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: 'date' | 'number';
+}
+
+export type MintStage = 'payment' | 'prompt' | 'config' | 'image' | 'uri' | 'asset' | 'transfer';
+
+export type MintJobStatus = 'pending' | 'completed' | 'expired' | 'dead' | 'refunded' | 'resolved';
+
+export interface MintJob {
+  id: string;
+  status: MintJobStatus;
+  stage: MintStage;
+  attempts: number;
+  nextRunAt: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+
+  // Order details captured by /post_action
+  prompt: string;
+  note: string;
+  noteOnChain: boolean;
+  reference: string;
+  paymentExpiresAt: number;
+  userAccount: string;
+  // Recipient wallet; the buyer's own address unless the order is a gift
+  gift: string;
+  // Locked price for this order; the payment must match it
+  quote: PriceQuote;
+  options: MintOptions;
+
+  safetyVerdicts?: SafetyVerdict[];
+
+  // Stage checkpoints
+  transactionSignature?: string;
+  // In the quote's base units (lamports or token units)
+  paidAmount?: number;
+  paymentRejections?: PaymentRejection[];
+  enhancedPrompt?: EnhancedPrompt;
+  config?: NFTConfig;
+  // Name of the job-store artifact holding the generated image until it is uploaded
+  imageArtifact?: string;
+  imageModel?: string;
+  imageUri?: string;
+  uri?: string;
+  storageBackend?: string;
+  assetAddress?: string;
+  transferSignature?: string;
+
+  refund?: RefundRecord;
+
+  // Set for gifts: the minter holds the asset until the recipient claims it
+  giftEscrow?: GiftEscrowRecord;
+
+  // Correlation ID of the /post_action request that created the order
+  requestId?: string;
+  // Campaign the order was placed in; unset on orders from before campaigns
+  campaignId?: string;
+
+  // Every stage attempt, oldest first
+  history?: StageAttempt[];
+  operatorLog?: OperatorAction[];
+}
+
+export type GiftEscrowStatus = 'escrowed' | 'claimed' | 'returned';
+
+export interface GiftEscrowRecord {
+  status: GiftEscrowStatus;
+  // Unclaimed gifts go back to the buyer after this
+  expiresAt: number;
+  claimedAt?: number;
+  returnedAt?: number;
+  returnSignature?: string;
+}
+
+export interface StageAttempt {
+  stage: MintStage;
+  attempt: number;
+  outcome: 'completed' | 'failed';
+  error?: string;
+  startedAt: number;
+  finishedAt: number;
+}
+
+export interface OperatorAction {
+  action: 'rerun' | 'resolve';
+  detail: string;
+  at: number;
+}
+
+export interface StylePreset {
+  id: string;
+  label: string;
+  // Style guidance for the prompt writer and the image model; empty lets the AI choose
+  prompt: string;
+}
+
+// What the user picked in the blink; the preset is copied so catalogue edits don't affect the order
+export interface MintOptions {
+  preset: StylePreset;
+  quality: ImageQuality;
+  aspectRatio: string;
+  size: string;
+}
+
+// A currency an order can be paid in; SOL has no mint
+export interface PaymentCurrency {
+  symbol: string;
+  mint?: string;
+  decimals: number;
+  // Fixed USD value of one token, e.g. 1 for stablecoins; SOL is priced from live sources
+  usdRate?: number;
+}
+
+export interface PriceQuote {
+  usd: number;
+  currency: string;
+  mint?: string;
+  decimals: number;
+  // USD value of one whole unit of the currency
+  unitPriceUsd: number;
+  // Amount due in base units (lamports or token units)
+  amount: number;
+  // Sources whose readings went into the price
+  sources: string[];
+  quotedAt: number;
+  expiresAt: number;
+}
+
+export interface RefundRecord {
+  // 'failed' once the refund transaction is known to have failed on chain
+  status: 'pending' | 'confirmed' | 'failed';
+  signature: string;
+  // In the same base units as the payment
+  amount: number;
+  lastValidBlockHeight: number;
+  reason: string;
+  requestedAt: number;
+  confirmedAt?: number;
+}
+
+export type PaymentRejectionReason =
+  | 'transaction_not_found'
+  | 'transaction_failed'
+  | 'payer_not_signer'
+  | 'reference_missing'
+  | 'memo_mismatch'
+  | 'missing_transfer'
+  | 'insufficient_amount'
+  // The transaction already paid for another order
+  | 'signature_already_used'
+  // The transaction carries the references of several orders, so it cannot pay for any one of them
+  | 'multiple_references';
+
+export type PaymentVerification =
+  | { valid: true; amount: number }
+  | { valid: false; reason: PaymentRejectionReason; detail: string };
+
+export interface PaymentRejection {
+  signature: string;
+  reason: PaymentRejectionReason;
+  detail: string;
+  checkedAt: number;
+}
+
+// Public view of where an order is, as reported by GET /orders/:id
+export type OrderStage = 'awaiting_payment' | 'generating' | 'uploading' | 'minting' | 'gift_pending' | 'transferred' | 'gift_returned' | 'refunded' | 'failed';
+
+export interface OrderStatus {
+  id: string;
+  stage: OrderStage;
+  assetAddress?: string;
+  image?: string;
+  metadata?: string;
+  error?: string;
+  signatures: {
+    payment?: string;
+    transfer?: string;
+    refund?: string;
+    giftReturn?: string;
+  };
+  gift?: {
+    status: GiftEscrowStatus;
+    expiresAt: number;
+  };
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type MintEventType =
+  | 'payment.found'
+  | 'prompt.enhanced'
+  | 'image.generated'
+  | 'metadata.uploaded'
+  | 'asset.created'
+  | 'nft.transferred'
+  | 'gift.escrowed'
+  | 'gift.claimed'
+  | 'gift.returned'
+  | 'order.failed';
+
+export interface MintEvent {
+  type: MintEventType;
+  orderId: string;
+  timestamp: number;
+  order: OrderStatus;
+}
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  secret: string;
+  // Empty means every event type
+  events: MintEventType[];
+  createdAt: number;
+}
+
+export type SafetyLayer = 'denylist' | 'moderation' | 'image_moderation';
+
+export interface SafetyVerdict {
+  // What was checked, e.g. 'prompt', 'note', 'title' or 'image'
+  subject: string;
+  layer: SafetyLayer;
+  flagged: boolean;
+  categories: string[];
+  checkedAt: number;
+}
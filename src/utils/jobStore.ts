@@ -0,0 +1,345 @@
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { promises, mkdirSync } from 'fs';
+import Queue from 'bull';
+import { MintJob } from './interfaces'
+
+export interface JobStore {
+  get(id: string): Promise<MintJob | null>;
+  save(job: MintJob): Promise<void>;
+  list(): Promise<MintJob[]>;
+  // Atomically credits a payment transaction to `orderId`; returns the order it is credited to,
+  // which is another order when the signature already paid for one
+  creditPayment(signature: string, orderId: string): Promise<string>;
+  // Mutual exclusion across every worker sharing the store; resolves to the release function,
+  // or null while someone else holds `name`. An unreleased lock lapses after `ttlMs`.
+  lock(name: string, ttlMs: number): Promise<(() => Promise<void>) | null>;
+  // Supply slots of capped campaigns, one per order; a slot is only taken while fewer than
+  // `supply` are held, and holding it again is a no-op
+  holdSlot(campaignId: string, orderId: string, supply: number): Promise<boolean>;
+  freeSlot(campaignId: string, orderId: string): Promise<void>;
+  countSlots(campaignId: string): Promise<number>;
+  // Binary checkpoints too large for the job record, e.g. the generated image
+  saveArtifact(id: string, name: string, data: Buffer): Promise<void>;
+  loadArtifact(id: string, name: string): Promise<Buffer | null>;
+  deleteArtifact(id: string, name: string): Promise<void>;
+}
+
+// Order ids are random UUIDs; anything else never reaches a file path or key
+const ORDER_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export function isOrderId(id: string): boolean {
+  return ORDER_ID.test(id);
+}
+
+function assertOrderId(id: string) {
+  if (!isOrderId(id)) {
+    throw new Error(`Invalid order id '${id}'`);
+  }
+}
+
+const LOCK_NAME = /^[\w-]{1,100}$/;
+
+function assertLockName(name: string) {
+  if (!LOCK_NAME.test(name)) {
+    throw new Error(`Invalid lock name '${name}'`);
+  }
+}
+
+const CAMPAIGN_ID = /^[a-z0-9-]{1,64}$/;
+
+function assertCampaignId(campaignId: string) {
+  if (!CAMPAIGN_ID.test(campaignId)) {
+    throw new Error(`Invalid campaign id '${campaignId}'`);
+  }
+}
+
+// Base58 transaction signatures
+const SIGNATURE = /^[1-9A-HJ-NP-Za-km-z]{64,90}$/;
+
+function assertSignature(signature: string) {
+  if (!SIGNATURE.test(signature)) {
+    throw new Error(`Invalid transaction signature '${signature}'`);
+  }
+}
+
+/**
+ * Keeps one JSON file per job in `dir`. Writes go through a temporary file and a rename
+ * so a crash mid-write never leaves a truncated checkpoint behind.
+ */
+export function createFileJobStore(dir: string): JobStore {
+  mkdirSync(dir, { recursive: true });
+  // One file per credited payment signature, holding the order id; created exclusively
+  const paymentsDir = path.join(dir, 'payments');
+  mkdirSync(paymentsDir, { recursive: true });
+  const locksDir = path.join(dir, 'locks');
+  mkdirSync(locksDir, { recursive: true });
+  // One empty file per held slot in `slots/<campaign>/`; the local scheduler keeps this store to
+  // one process, so serializing slot changes in memory is enough
+  const slotsDir = (campaignId: string) => {
+    assertCampaignId(campaignId);
+    return path.join(dir, 'slots', campaignId);
+  };
+  let slotChanges: Promise<unknown> = Promise.resolve();
+  const serialized = <T>(change: () => Promise<T>): Promise<T> => {
+    const result = slotChanges.then(change);
+    slotChanges = result.catch(() => undefined);
+    return result;
+  };
+
+  async function slotCount(campaignId: string): Promise<number> {
+    try {
+      return (await promises.readdir(slotsDir(campaignId))).length;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return 0;
+      }
+      throw error;
+    }
+  }
+
+  async function readLock(lockPath: string): Promise<{ token: string; expiresAt: number } | null> {
+    try {
+      return JSON.parse(await promises.readFile(lockPath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  const jobPath = (id: string) => {
+    assertOrderId(id);
+    return path.join(dir, `${id}.json`);
+  };
+  const artifactPath = (id: string, name: string) => {
+    assertOrderId(id);
+    return path.join(dir, `${id}.${name}.bin`);
+  };
+
+  return {
+    async get(id) {
+      if (!isOrderId(id)) {
+        return null;
+      }
+      try {
+        const raw = await promises.readFile(jobPath(id), 'utf-8');
+        return JSON.parse(raw) as MintJob;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async save(job) {
+      const tmpPath = `${jobPath(job.id)}.tmp`;
+      await promises.writeFile(tmpPath, JSON.stringify(job, null, 2));
+      await promises.rename(tmpPath, jobPath(job.id));
+    },
+
+    async list() {
+      const files = await promises.readdir(dir);
+      const jobs = await Promise.all(
+        files
+          .filter(file => file.endsWith('.json'))
+          .map(file => this.get(path.basename(file, '.json')))
+      );
+      return jobs.filter((job): job is MintJob => job !== null);
+    },
+
+    async creditPayment(signature, orderId) {
+      assertSignature(signature);
+      assertOrderId(orderId);
+      const creditPath = path.join(paymentsDir, signature);
+      try {
+        await promises.writeFile(creditPath, orderId, { flag: 'wx' });
+        return orderId;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        return (await promises.readFile(creditPath, 'utf-8')).trim();
+      }
+    },
+
+    async lock(name, ttlMs) {
+      assertLockName(name);
+      const lockPath = path.join(locksDir, `${name}.lock`);
+      const token = randomUUID();
+      const create = async () => {
+        try {
+          await promises.writeFile(lockPath, JSON.stringify({ token, expiresAt: Date.now() + ttlMs }), { flag: 'wx' });
+          return true;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+            return false;
+          }
+          throw error;
+        }
+      };
+
+      if (!(await create())) {
+        // A holder that crashed leaves its lock behind until it lapses
+        const held = await readLock(lockPath);
+        if (held && held.expiresAt > Date.now()) {
+          return null;
+        }
+        await promises.rm(lockPath, { force: true });
+        if (!(await create())) {
+          return null;
+        }
+      }
+      return async () => {
+        if ((await readLock(lockPath))?.token === token) {
+          await promises.rm(lockPath, { force: true });
+        }
+      };
+    },
+
+    holdSlot(campaignId, orderId, supply) {
+      assertOrderId(orderId);
+      const slotPath = path.join(slotsDir(campaignId), orderId);
+      return serialized(async () => {
+        try {
+          await promises.access(slotPath);
+          return true;
+        } catch {
+          // Not held yet
+        }
+        if (await slotCount(campaignId) >= supply) {
+          return false;
+        }
+        await promises.mkdir(slotsDir(campaignId), { recursive: true });
+        await promises.writeFile(slotPath, '');
+        return true;
+      });
+    },
+
+    freeSlot(campaignId, orderId) {
+      assertOrderId(orderId);
+      return serialized(() => promises.rm(path.join(slotsDir(campaignId), orderId), { force: true }));
+    },
+
+    countSlots(campaignId) {
+      return slotCount(campaignId);
+    },
+
+    async saveArtifact(id, name, data) {
+      const tmpPath = `${artifactPath(id, name)}.tmp`;
+      await promises.writeFile(tmpPath, data);
+      await promises.rename(tmpPath, artifactPath(id, name));
+    },
+
+    async loadArtifact(id, name) {
+      try {
+        return await promises.readFile(artifactPath(id, name));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async deleteArtifact(id, name) {
+      await promises.rm(artifactPath(id, name), { force: true });
+    },
+  };
+}
+
+const RELEASE_LOCK_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end`;
+
+// Adds the order to the campaign's slot set unless the set is already full
+const HOLD_SLOT_SCRIPT = `
+if redis.call('sismember', KEYS[1], ARGV[1]) == 1 then return 1 end
+if redis.call('scard', KEYS[1]) >= tonumber(ARGV[2]) then return 0 end
+redis.call('sadd', KEYS[1], ARGV[1])
+return 1`;
+
+/**
+ * Stores jobs in the same Redis instance that backs the Bull queue, so several
+ * workers share one view of every order.
+ */
+export function createRedisJobStore(client: Queue.Queue['client'], prefix = 'mint:job'): JobStore {
+  const indexKey = `${prefix}:ids`;
+
+  return {
+    async get(id) {
+      if (!isOrderId(id)) {
+        return null;
+      }
+      const raw = await client.get(`${prefix}:${id}`);
+      return raw ? JSON.parse(raw) as MintJob : null;
+    },
+
+    async save(job) {
+      assertOrderId(job.id);
+      await client
+        .multi()
+        .set(`${prefix}:${job.id}`, JSON.stringify(job))
+        .sadd(indexKey, job.id)
+        .exec();
+    },
+
+    async list() {
+      const ids = await client.smembers(indexKey);
+      const jobs = await Promise.all(ids.map(id => this.get(id)));
+      return jobs.filter((job): job is MintJob => job !== null);
+    },
+
+    async creditPayment(signature, orderId) {
+      assertSignature(signature);
+      assertOrderId(orderId);
+      const key = `${prefix}:payment:${signature}`;
+      if (await client.set(key, orderId, 'NX') === 'OK') {
+        return orderId;
+      }
+      return (await client.get(key))!;
+    },
+
+    async lock(name, ttlMs) {
+      assertLockName(name);
+      const key = `${prefix}:lock:${name}`;
+      const token = randomUUID();
+      if (await client.set(key, token, 'PX', ttlMs, 'NX') !== 'OK') {
+        return null;
+      }
+      return async () => {
+        // Only the holder may release; a lapsed lock may belong to someone else by now
+        await client.eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+      };
+    },
+
+    async holdSlot(campaignId, orderId, supply) {
+      assertCampaignId(campaignId);
+      assertOrderId(orderId);
+      return await client.eval(HOLD_SLOT_SCRIPT, 1, `${prefix}:slots:${campaignId}`, orderId, supply) === 1;
+    },
+
+    async freeSlot(campaignId, orderId) {
+      assertCampaignId(campaignId);
+      await client.srem(`${prefix}:slots:${campaignId}`, orderId);
+    },
+
+    async countSlots(campaignId) {
+      assertCampaignId(campaignId);
+      return client.scard(`${prefix}:slots:${campaignId}`);
+    },
+
+    async saveArtifact(id, name, data) {
+      assertOrderId(id);
+      await client.set(`${prefix}:${id}:${name}`, data);
+    },
+
+    async loadArtifact(id, name) {
+      return client.getBuffer(`${prefix}:${id}:${name}`);
+    },
+
+    async deleteArtifact(id, name) {
+      await client.del(`${prefix}:${id}:${name}`);
+    },
+  };
+}
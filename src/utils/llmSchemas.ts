@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+// Asset names are stored on chain, so the title has to fit the 32-byte name field
+const MAX_TITLE_BYTES = 32;
+
+export const EnhancedPromptSchema = z.object({
+  prompt: z.string().min(1).max(1000)
+    .describe('The re-written prompt, enhanced to augment its artistic qualities and uniqueness'),
+  style: z.string().min(1).max(64)
+    .describe('The requested artistic style, in a few words'),
+  mood: z.string().min(1).max(64)
+    .describe('The desired mood for the prompt, in a few words'),
+});
+
+export const NftAttributesSchema = z.object({
+  title: z.string().min(1)
+    .refine(title => !/\s/.test(title.trim()), 'The title must be a single word')
+    .refine(title => Buffer.byteLength(title) <= MAX_TITLE_BYTES, `The title must fit in ${MAX_TITLE_BYTES} bytes`)
+    .describe('Describe the image in ONE word, be creative'),
+  description: z.string().min(1).max(200)
+    .describe('A very short description of the prompt'),
+  mood: z.string().min(1).max(64)
+    .describe('The mood of the prompt'),
+  haiku: z.string().min(1).max(200)
+    .describe('A very short haiku based on the prompt'),
+});
+
+export type EnhancedPrompt = z.infer<typeof EnhancedPromptSchema>;
+export type NftAttributes = z.infer<typeof NftAttributesSchema>;
+
+// Thrown once the model kept producing output that fails the schema
+export class GenerationError extends Error {
+  constructor(public step: 'prompt' | 'attributes', cause: unknown) {
+    super(`LLM ${step} generation gave up: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'GenerationError';
+  }
+}
@@ -0,0 +1,90 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // Every line of the child carries `bindings`, e.g. the order and request it belongs to
+  child(bindings: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+  level: LogLevel;
+  // Field names whose values are replaced by their length, at any depth
+  redact: string[];
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Shared by every logger so modules can take theirs at import time, before the server configures it
+const settings: LoggerOptions = {
+  level: 'info',
+  redact: ['prompt', 'note', 'memo', 'enhancedPrompt'],
+};
+
+export function configureLogger(options: Partial<LoggerOptions>) {
+  if (options.level && !(options.level in LEVELS)) {
+    throw new Error(`Unknown log level '${options.level}'`);
+  }
+  Object.assign(settings, options);
+}
+
+function serializeError(error: Error): LogFields {
+  return { name: error.name, message: error.message, stack: error.stack };
+}
+
+function sanitize(value: unknown, depth = 0): unknown {
+  if (value instanceof Error) {
+    return serializeError(value);
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (depth > 5 || value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => sanitize(item, depth + 1));
+  }
+  if (Buffer.isBuffer(value)) {
+    return `<${value.length} bytes>`;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    settings.redact.includes(key) && item !== undefined && item !== ''
+      ? `[redacted ${String(typeof item === 'string' ? item.length : JSON.stringify(item).length)} chars]`
+      : sanitize(item, depth + 1),
+  ]));
+}
+
+/**
+ * Writes one JSON object per line: time, level, message, the bindings of every parent logger
+ * and the call's own fields, with the configured fields redacted and errors serialized.
+ */
+export function createLogger(bindings: LogFields = {}): Logger {
+  const write = (level: LogLevel, message: string, fields?: LogFields) => {
+    if (LEVELS[level] < LEVELS[settings.level]) {
+      return;
+    }
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...(sanitize({ ...bindings, ...fields }) as LogFields),
+    });
+    (level === 'error' || level === 'warn' ? process.stderr : process.stdout).write(`${line}\n`);
+  };
+
+  return {
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields),
+    child: (childBindings) => createLogger({ ...bindings, ...childBindings }),
+  };
+}
+
+export const logger = createLogger();
@@ -0,0 +1,132 @@
+import { NFTConfig, NftAttribute, NftMetadata } from './interfaces'
+
+export type MetadataAttributeKey = 'haiku' | 'note' | 'mood' | 'style' | 'preset' | 'quality' | 'aspect_ratio' | 'prompt' | 'model' | 'created';
+
+export const METADATA_ATTRIBUTE_KEYS: MetadataAttributeKey[] = ['haiku', 'note', 'mood', 'style', 'preset', 'quality', 'aspect_ratio', 'prompt', 'model', 'created'];
+
+export interface MetadataOptions {
+  symbol: string;
+  externalUrl?: string;
+  // Which traits to publish, in order
+  attributes: MetadataAttributeKey[];
+}
+
+export interface MetadataInput {
+  config: NFTConfig;
+  imageUri: string;
+  enhancedPrompt?: string;
+  style?: string;
+  preset?: string;
+  quality?: string;
+  aspectRatio?: string;
+  model?: string;
+  createdAt: number;
+}
+
+export class MetadataValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid NFT metadata: ${issues.join('; ')}`);
+    this.name = 'MetadataValidationError';
+  }
+}
+
+// Limits from the Metaplex metadata account layout
+const MAX_NAME_BYTES = 32;
+const MAX_SYMBOL_BYTES = 10;
+
+function attributeFor(key: MetadataAttributeKey, input: MetadataInput): NftAttribute | null {
+  switch (key) {
+    case 'haiku':
+      return input.config.haiku ? { trait_type: 'Haiku', value: input.config.haiku } : null;
+    case 'note':
+      return input.config.note ? { trait_type: 'Note', value: input.config.note } : null;
+    case 'mood':
+      return input.config.mood ? { trait_type: 'Mood', value: input.config.mood } : null;
+    case 'style':
+      return input.style ? { trait_type: 'Style', value: input.style } : null;
+    case 'preset':
+      return input.preset ? { trait_type: 'Preset', value: input.preset } : null;
+    case 'quality':
+      return input.quality ? { trait_type: 'Quality', value: input.quality } : null;
+    case 'aspect_ratio':
+      return input.aspectRatio ? { trait_type: 'Aspect Ratio', value: input.aspectRatio } : null;
+    case 'prompt':
+      return input.enhancedPrompt ? { trait_type: 'Prompt', value: input.enhancedPrompt } : null;
+    case 'model':
+      return input.model ? { trait_type: 'Generator', value: input.model } : null;
+    case 'created':
+      return { trait_type: 'Created', value: Math.floor(input.createdAt / 1000), display_type: 'date' };
+  }
+}
+
+function isUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function validateMetadata(metadata: NftMetadata): NftMetadata {
+  const issues: string[] = [];
+
+  if (!metadata.name.trim()) {
+    issues.push('name is empty');
+  } else if (Buffer.byteLength(metadata.name) > MAX_NAME_BYTES) {
+    issues.push(`name is longer than ${MAX_NAME_BYTES} bytes`);
+  }
+  if (Buffer.byteLength(metadata.symbol) > MAX_SYMBOL_BYTES) {
+    issues.push(`symbol is longer than ${MAX_SYMBOL_BYTES} bytes`);
+  }
+  if (!isUrl(metadata.image)) {
+    issues.push('image is not a valid URL');
+  }
+  if (metadata.external_url !== undefined && !isUrl(metadata.external_url)) {
+    issues.push('external_url is not a valid URL');
+  }
+  metadata.attributes.forEach((attribute, i) => {
+    if (!attribute.trait_type.trim()) {
+      issues.push(`attributes[${i}].trait_type is empty`);
+    }
+    if (typeof attribute.value !== 'string' && typeof attribute.value !== 'number') {
+      issues.push(`attributes[${i}].value must be a string or number`);
+    }
+  });
+  if (metadata.properties.files.length === 0) {
+    issues.push('properties.files is empty');
+  }
+  metadata.properties.files.forEach((file, i) => {
+    if (!isUrl(file.uri)) {
+      issues.push(`properties.files[${i}].uri is not a valid URL`);
+    }
+    if (!file.type) {
+      issues.push(`properties.files[${i}].type is empty`);
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new MetadataValidationError(issues);
+  }
+  return metadata;
+}
+
+// Builds the public JSON document from the internal config, keeping server-side fields out of it
+export function buildMetadata(input: MetadataInput, options: MetadataOptions): NftMetadata {
+  const metadata: NftMetadata = {
+    name: input.config.imgName,
+    symbol: options.symbol,
+    description: input.config.description,
+    image: input.imageUri,
+    ...(options.externalUrl ? { external_url: options.externalUrl } : {}),
+    attributes: options.attributes
+      .map(key => attributeFor(key, input))
+      .filter((attribute): attribute is NftAttribute => attribute !== null),
+    properties: {
+      files: [{ uri: input.imageUri, type: input.config.imgType }],
+      category: 'image',
+    },
+  };
+
+  return validateMetadata(metadata);
+}
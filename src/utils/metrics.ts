@@ -0,0 +1,136 @@
+// A minimal Prometheus registry: counters, gauges and histograms rendered in the text exposition format
+
+type Labels = Record<string, string>;
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Gauge {
+  set(labels: Labels, value: number): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+}
+
+export interface MetricsRegistry {
+  counter(name: string, help: string): Counter;
+  gauge(name: string, help: string, collect?: (gauge: Gauge) => Promise<void>): Gauge;
+  histogram(name: string, help: string, buckets?: number[]): Histogram;
+  render(): Promise<string>;
+}
+
+export const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+  return `{${entries.map(([key, value]) => `${key}="${escape(value)}"`).join(',')}}`;
+}
+
+interface Metric {
+  render(): Promise<string[]>;
+}
+
+export function createMetricsRegistry(): MetricsRegistry {
+  const metrics: Metric[] = [];
+  const names = new Set<string>();
+
+  function register(name: string, metric: Metric) {
+    if (names.has(name)) {
+      throw new Error(`Metric '${name}' is already registered`);
+    }
+    names.add(name);
+    metrics.push(metric);
+  }
+
+  return {
+    counter(name, help) {
+      const values = new Map<string, { labels: Labels; value: number }>();
+      register(name, {
+        async render() {
+          return [
+            `# HELP ${name} ${help}`,
+            `# TYPE ${name} counter`,
+            ...[...values.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+          ];
+        },
+      });
+      return {
+        inc(labels = {}, value = 1) {
+          const key = labelKey(labels);
+          const entry = values.get(key) ?? { labels, value: 0 };
+          entry.value += value;
+          values.set(key, entry);
+        },
+      };
+    },
+
+    gauge(name, help, collect) {
+      const values = new Map<string, { labels: Labels; value: number }>();
+      const gauge: Gauge = {
+        set(labels, value) {
+          values.set(labelKey(labels), { labels, value });
+        },
+      };
+      register(name, {
+        async render() {
+          if (collect) {
+            values.clear();
+            await collect(gauge);
+          }
+          return [
+            `# HELP ${name} ${help}`,
+            `# TYPE ${name} gauge`,
+            ...[...values.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+          ];
+        },
+      });
+      return gauge;
+    },
+
+    histogram(name, help, buckets = DEFAULT_BUCKETS) {
+      const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+      const observe = (labels: Labels, value: number) => {
+        const key = labelKey(labels);
+        const entry = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+        buckets.forEach((bound, i) => {
+          if (value <= bound) entry.counts[i] += 1;
+        });
+        entry.sum += value;
+        entry.count += 1;
+        series.set(key, entry);
+      };
+
+      register(name, {
+        async render() {
+          const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} histogram`];
+          for (const { labels, counts, sum, count } of series.values()) {
+            buckets.forEach((bound, i) => lines.push(`${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`));
+            lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+            lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+          }
+          return lines;
+        },
+      });
+
+      return { observe };
+    },
+
+    async render() {
+      const sections = await Promise.all(metrics.map(metric => metric.render()));
+      return `${sections.flat().join('\n')}\n`;
+    },
+  };
+}
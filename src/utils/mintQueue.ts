@@ -0,0 +1,329 @@
+import Queue from 'bull';
+import { MintJob, MintStage, OperatorAction, StageAttempt } from './interfaces'
+import { JobStore, createFileJobStore, createRedisJobStore } from './jobStore'
+import { EventBus, createMintEvent, stageEvent } from './events'
+import { Logger, logger } from './logger'
+
+export const MINT_STAGES: MintStage[] = ['payment', 'prompt', 'config', 'image', 'uri', 'asset', 'transfer'];
+
+// `log` is bound to the order, its stage and the request that created it
+export type StageHandler = (job: MintJob, log: Logger) => Promise<Partial<MintJob>>;
+export type StageHandlers = Record<MintStage, StageHandler>;
+
+export type NewMintOrder = Pick<MintJob, 'id' | 'prompt' | 'note' | 'noteOnChain' | 'reference' | 'paymentExpiresAt' | 'userAccount' | 'gift' | 'quote' | 'options' | 'safetyVerdicts' | 'requestId' | 'campaignId'>;
+
+// Lets a stage record what it learned (e.g. rejected payments) even when it fails
+export class StageError extends Error {
+  constructor(message: string, public checkpoint: Partial<MintJob>) {
+    super(message);
+    this.name = 'StageError';
+  }
+}
+
+// Sends the job straight to the dead-letter state; retrying cannot help (e.g. unsafe content)
+export class FatalStageError extends StageError {
+  constructor(message: string, checkpoint: Partial<MintJob> = {}) {
+    super(message, checkpoint);
+    this.name = 'FatalStageError';
+  }
+}
+
+// Ends the job without retries; the order can no longer succeed (e.g. it was never paid)
+export class OrderExpiredError extends StageError {
+  constructor(message: string, checkpoint: Partial<MintJob> = {}) {
+    super(message, checkpoint);
+    this.name = 'OrderExpiredError';
+  }
+}
+
+// An operator asked for something the order's current state does not allow
+export class JobStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobStateError';
+  }
+}
+
+export interface MintQueueOptions {
+  redisUrl?: string;
+  storePath: string;
+  // Jobs a single worker runs at once in the stages after payment
+  concurrency: number;
+  // Orders a single worker waits on for payment at once; a wait is an idle promise, so this can be high
+  paymentConcurrency: number;
+  maxAttempts: number;
+  backoffMs: number;
+  // Called once a job lands in the dead-letter state
+  onDead?: (job: MintJob) => Promise<void>;
+  // Called once an order expires without payment
+  onExpired?: (job: MintJob) => Promise<void>;
+  // Receives an event for every finished stage and for failed orders
+  events?: EventBus;
+  // Called after every stage attempt, e.g. to record its latency
+  onAttempt?: (attempt: StageAttempt, job: MintJob) => void;
+}
+
+export interface MintQueue {
+  store: JobStore;
+  enqueue(order: NewMintOrder): Promise<MintJob>;
+  // Puts a dead or expired order back in the queue, from its failed stage or an earlier one
+  rerun(jobId: string, stage?: MintStage): Promise<MintJob>;
+  // Closes a failed order that was handled outside the pipeline
+  resolve(jobId: string, note: string): Promise<MintJob>;
+  start(): Promise<void>;
+}
+
+const log = logger.child({ module: 'mintQueue' });
+
+// Correlates every line about an order with the request that created it
+function orderLogger(job: MintJob, parent: Logger = log): Logger {
+  return parent.child({ orderId: job.id, ...(job.requestId ? { requestId: job.requestId } : {}) });
+}
+
+function logOperatorAction(job: MintJob, action: OperatorAction['action'], detail: string) {
+  job.operatorLog = [...(job.operatorLog || []), { action, detail, at: Date.now() }];
+}
+
+interface Scheduler {
+  // Runs the job's current stage at its `nextRunAt`
+  schedule(job: MintJob): Promise<void>;
+  start(run: (jobId: string) => Promise<void>): Promise<void>;
+}
+
+// A job saved as pending whose schedule was lost (a crash between the two) is picked up again here
+async function resumePending(store: JobStore, schedule: Scheduler['schedule']) {
+  const pending = (await store.list()).filter(job => job.status === 'pending');
+  for (const job of pending) {
+    await schedule(job);
+  }
+  if (pending.length > 0) {
+    log.info('Resuming pending mint jobs', { count: pending.length });
+  }
+}
+
+/**
+ * Delayed Bull jobs live in Redis, so scheduled retries survive a restart on their own. The
+ * payment stage waits up to the order's expiry, so it runs on its own queue: unpaid orders
+ * never take a worker slot from paid ones.
+ */
+function createBullScheduler(store: JobStore, queue: Queue.Queue, paymentQueue: Queue.Queue, concurrency: number, paymentConcurrency: number): Scheduler {
+  const schedule = async (job: MintJob) => {
+    // One Bull job per stage attempt, so scheduling it again (on every worker start) is a no-op
+    await (job.stage === 'payment' ? paymentQueue : queue).add({ jobId: job.id }, {
+      jobId: `${job.id}:${job.stage}:${job.attempts}:${job.nextRunAt}`,
+      delay: Math.max(job.nextRunAt - Date.now(), 0),
+      removeOnComplete: true,
+      removeOnFail: true,
+    });
+  };
+
+  return {
+    schedule,
+    async start(run) {
+      queue.process(concurrency, async (bullJob) => run(bullJob.data.jobId));
+      paymentQueue.process(paymentConcurrency, async (bullJob) => run(bullJob.data.jobId));
+      await resumePending(store, schedule);
+    },
+  };
+}
+
+// In-process timers; pending jobs are rescheduled from the store when the worker starts
+function createLocalScheduler(store: JobStore): Scheduler {
+  let runner: ((jobId: string) => Promise<void>) | null = null;
+
+  const schedule = async (job: MintJob) => {
+    setTimeout(() => {
+      runner?.(job.id).catch(error => log.error('Job crashed', { orderId: job.id, error }));
+    }, Math.max(job.nextRunAt - Date.now(), 0));
+  };
+
+  return {
+    schedule,
+    async start(run) {
+      runner = run;
+      await resumePending(store, schedule);
+    },
+  };
+}
+
+export function createMintQueue(handlers: StageHandlers, options: MintQueueOptions): MintQueue {
+  let store: JobStore;
+  let scheduler: Scheduler;
+
+  if (options.redisUrl) {
+    const queue = new Queue('mint', options.redisUrl);
+    store = createRedisJobStore(queue.client);
+    scheduler = createBullScheduler(store, queue, new Queue('mint-payment', options.redisUrl), options.concurrency, options.paymentConcurrency);
+  } else {
+    store = createFileJobStore(options.storePath);
+    scheduler = createLocalScheduler(store);
+  }
+
+  // Guards against a job being picked up twice by the same worker
+  const running = new Set<string>();
+
+  async function runJob(jobId: string) {
+    if (running.has(jobId)) return;
+    running.add(jobId);
+
+    try {
+      const job = await store.get(jobId);
+      if (!job || job.status !== 'pending') return;
+
+      const stage = job.stage;
+      const startedAt = Date.now();
+      const jobLog = orderLogger(job).child({ stage });
+      const recordAttempt = (outcome: StageAttempt['outcome'], error?: string) => {
+        const attempt: StageAttempt = {
+          stage,
+          attempt: job.attempts + 1,
+          outcome,
+          ...(error ? { error } : {}),
+          startedAt,
+          finishedAt: Date.now(),
+        };
+        job.history = [...(job.history || []), attempt];
+        options.onAttempt?.(attempt, job);
+      };
+      jobLog.info('Running stage', { attempt: job.attempts + 1, maxAttempts: options.maxAttempts });
+
+      try {
+        const checkpoint = await handlers[stage](job, jobLog);
+        const nextStage = MINT_STAGES[MINT_STAGES.indexOf(stage) + 1];
+
+        recordAttempt('completed');
+        Object.assign(job, checkpoint, {
+          stage: nextStage ?? stage,
+          status: nextStage ? 'pending' : 'completed',
+          attempts: 0,
+          nextRunAt: Date.now(),
+          lastError: undefined,
+          updatedAt: Date.now(),
+        });
+        await store.save(job);
+
+        const event = stageEvent(stage, job);
+        if (event) {
+          options.events?.emit(event);
+        }
+
+        if (nextStage) {
+          await scheduler.schedule(job);
+        } else {
+          jobLog.info('Job completed', { durationMs: Date.now() - job.createdAt });
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (error instanceof StageError) {
+          Object.assign(job, error.checkpoint);
+        }
+        recordAttempt('failed', message);
+        job.attempts += 1;
+        job.lastError = message;
+        job.updatedAt = Date.now();
+
+        if (error instanceof OrderExpiredError) {
+          job.status = 'expired';
+          await store.save(job);
+          jobLog.warn('Job expired', { error: message });
+          options.events?.emit(createMintEvent('order.failed', job));
+          await options.onExpired?.(job).catch(hookError =>
+            jobLog.error('Expiry handler failed', { error: hookError })
+          );
+          return;
+        }
+
+        if (job.attempts >= options.maxAttempts || error instanceof FatalStageError) {
+          job.status = 'dead';
+          await store.save(job);
+          jobLog.error('Job moved to dead-letter', { attempts: job.attempts, error: message });
+          options.events?.emit(createMintEvent('order.failed', job));
+          await options.onDead?.(job).catch(hookError =>
+            jobLog.error('Dead-letter handler failed', { error: hookError })
+          );
+          return;
+        }
+
+        const delay = options.backoffMs * 2 ** (job.attempts - 1);
+        job.nextRunAt = Date.now() + delay;
+        await store.save(job);
+        jobLog.warn('Stage failed, retrying', { attempt: job.attempts, retryInMs: delay, error: message });
+        await scheduler.schedule(job);
+      }
+    } finally {
+      running.delete(jobId);
+    }
+  }
+
+  return {
+    store,
+
+    async enqueue(order) {
+      const now = Date.now();
+      const job: MintJob = {
+        ...order,
+        status: 'pending',
+        stage: MINT_STAGES[0],
+        attempts: 0,
+        nextRunAt: now,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await store.save(job);
+      await scheduler.schedule(job);
+      return job;
+    },
+
+    async rerun(jobId, stage) {
+      const job = await store.get(jobId);
+      if (!job) {
+        throw new JobStateError(`Order ${jobId} not found`);
+      }
+      if (job.status !== 'dead' && job.status !== 'expired') {
+        throw new JobStateError(`Order ${jobId} is ${job.status}, only dead or expired orders can be re-run`);
+      }
+      // A refund still in flight may land after the re-run delivers the NFT
+      if (job.refund && job.refund.status !== 'failed') {
+        throw new JobStateError(`Order ${jobId} has a ${job.refund.status} refund (${job.refund.signature}), it cannot be re-run`);
+      }
+      const from = stage ?? job.stage;
+      if (!MINT_STAGES.includes(from) || MINT_STAGES.indexOf(from) > MINT_STAGES.indexOf(job.stage)) {
+        throw new JobStateError(`Order ${jobId} never reached stage '${from}'`);
+      }
+
+      logOperatorAction(job, 'rerun', `from stage '${from}' after: ${job.lastError ?? 'no error recorded'}`);
+      Object.assign(job, {
+        status: 'pending',
+        stage: from,
+        attempts: 0,
+        nextRunAt: Date.now(),
+        lastError: undefined,
+        updatedAt: Date.now(),
+      });
+      await store.save(job);
+      await scheduler.schedule(job);
+      orderLogger(job).info('Job re-queued by an operator', { stage: from });
+      return job;
+    },
+
+    async resolve(jobId, note) {
+      const job = await store.get(jobId);
+      if (!job) {
+        throw new JobStateError(`Order ${jobId} not found`);
+      }
+      if (job.status === 'pending' || job.status === 'completed') {
+        throw new JobStateError(`Order ${jobId} is ${job.status}, only failed orders can be resolved`);
+      }
+
+      logOperatorAction(job, 'resolve', note);
+      job.status = 'resolved';
+      job.updatedAt = Date.now();
+      await store.save(job);
+      return job;
+    },
+
+    async start() {
+      await scheduler.start(runJob);
+    },
+  };
+}
@@ -0,0 +1,126 @@
+import { MintJob, MintJobStatus, MintStage } from './interfaces'
+import { MINT_STAGES } from './mintQueue'
+import { campaignIdOf } from './campaigns'
+import { ImageQuality } from './generateImage'
+
+export interface OrderFilter {
+  // Matches the buyer or the gift recipient
+  wallet?: string;
+  status?: MintJobStatus;
+  campaign?: string;
+  // Creation time bounds, in ms since the epoch
+  from?: number;
+  to?: number;
+  limit: number;
+  offset: number;
+}
+
+// Rough OpenAI list prices, used to estimate what the pipeline has spent
+export interface OpenAISpendRates {
+  // One structured completion in the prompt or config stage
+  llmCallUsd: number;
+  image: Record<ImageQuality, { square: number; nonSquare: number }>;
+}
+
+export const DEFAULT_OPENAI_SPEND_RATES: OpenAISpendRates = {
+  llmCallUsd: 0.01,
+  image: {
+    standard: { square: 0.04, nonSquare: 0.08 },
+    hd: { square: 0.08, nonSquare: 0.12 },
+  },
+};
+
+export interface CurrencyRevenue {
+  // Base units of the currency
+  paid: number;
+  refunded: number;
+  net: number;
+  orders: number;
+}
+
+export interface StageFailureRate {
+  attempts: number;
+  failures: number;
+  rate: number;
+}
+
+export interface OrderStats {
+  orders: number;
+  byStatus: Partial<Record<MintJobStatus, number>>;
+  revenueLamports: number;
+  revenue: Record<string, CurrencyRevenue>;
+  openaiSpendUsd: { llm: number; images: number; total: number };
+  stages: Record<MintStage, StageFailureRate>;
+}
+
+// Newest orders first
+export function filterOrders(jobs: MintJob[], filter: OrderFilter): { total: number; orders: MintJob[] } {
+  const matching = jobs
+    .filter(job => !filter.wallet || job.userAccount === filter.wallet || job.gift === filter.wallet)
+    .filter(job => !filter.status || job.status === filter.status)
+    .filter(job => !filter.campaign || campaignIdOf(job) === filter.campaign)
+    .filter(job => filter.from === undefined || job.createdAt >= filter.from)
+    .filter(job => filter.to === undefined || job.createdAt <= filter.to)
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  return { total: matching.length, orders: matching.slice(filter.offset, filter.offset + filter.limit) };
+}
+
+function imageCost(job: MintJob, rates: OpenAISpendRates): number {
+  if (!job.imageModel?.startsWith('dall-e')) {
+    return 0;
+  }
+  const price = rates.image[job.options.quality];
+  return job.options.aspectRatio === 'square' ? price.square : price.nonSquare;
+}
+
+/**
+ * Aggregates revenue per currency (net of confirmed refunds), an estimate of the OpenAI spend and
+ * the failure rate of every stage. Spend is counted per recorded attempt: each prompt or config
+ * attempt is one completion, each completed image attempt one generation.
+ */
+export function computeOrderStats(jobs: MintJob[], rates: OpenAISpendRates): OrderStats {
+  const stats: OrderStats = {
+    orders: jobs.length,
+    byStatus: {},
+    revenueLamports: 0,
+    revenue: {},
+    openaiSpendUsd: { llm: 0, images: 0, total: 0 },
+    stages: Object.fromEntries(MINT_STAGES.map(stage => [stage, { attempts: 0, failures: 0, rate: 0 }])) as Record<MintStage, StageFailureRate>,
+  };
+
+  for (const job of jobs) {
+    stats.byStatus[job.status] = (stats.byStatus[job.status] || 0) + 1;
+
+    if (job.paidAmount) {
+      const revenue = stats.revenue[job.quote.currency] ??= { paid: 0, refunded: 0, net: 0, orders: 0 };
+      revenue.paid += job.paidAmount;
+      revenue.orders += 1;
+      if (job.refund?.status === 'confirmed') {
+        revenue.refunded += job.refund.amount;
+      }
+      revenue.net = revenue.paid - revenue.refunded;
+    }
+
+    for (const attempt of job.history || []) {
+      const stage = stats.stages[attempt.stage];
+      stage.attempts += 1;
+      if (attempt.outcome === 'failed') {
+        stage.failures += 1;
+      }
+      if (attempt.stage === 'prompt' || attempt.stage === 'config') {
+        stats.openaiSpendUsd.llm += rates.llmCallUsd;
+      }
+      if (attempt.stage === 'image' && attempt.outcome === 'completed') {
+        stats.openaiSpendUsd.images += imageCost(job, rates);
+      }
+    }
+  }
+
+  for (const stage of Object.values(stats.stages)) {
+    stage.rate = stage.attempts > 0 ? stage.failures / stage.attempts : 0;
+  }
+  stats.revenueLamports = stats.revenue.SOL?.net ?? 0;
+  stats.openaiSpendUsd.total = stats.openaiSpendUsd.llm + stats.openaiSpendUsd.images;
+  return stats;
+}
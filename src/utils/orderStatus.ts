@@ -0,0 +1,123 @@
+import * as actions from '@solana/actions'
+import { MintJob, MintStage, OrderStage, OrderStatus } from './interfaces'
+
+const STAGE_PROGRESS: Record<MintStage, OrderStage> = {
+  payment: 'awaiting_payment',
+  prompt: 'generating',
+  config: 'generating',
+  image: 'generating',
+  uri: 'uploading',
+  asset: 'minting',
+  transfer: 'minting',
+};
+
+const STAGE_MESSAGES: Record<OrderStage, string> = {
+  awaiting_payment: 'Waiting for your payment to confirm ⏳',
+  generating: 'Dreaming up your artwork 🎨',
+  uploading: 'Uploading your artwork 🔗',
+  minting: 'Minting your NFT ⛏️',
+  gift_pending: 'Your gift is minted and waiting to be claimed 🎁',
+  transferred: 'Your NFT is in your wallet 📬',
+  gift_returned: 'Your gift was not claimed in time and is back in your wallet 📬',
+  refunded: 'Something went wrong, your payment was refunded 💸',
+  failed: 'Something went wrong with your order',
+};
+
+export function getOrderStage(job: MintJob): OrderStage {
+  switch (job.status) {
+    case 'completed':
+      if (job.giftEscrow?.status === 'escrowed') return 'gift_pending';
+      if (job.giftEscrow?.status === 'returned') return 'gift_returned';
+      return 'transferred';
+    case 'refunded':
+      return 'refunded';
+    case 'expired':
+    case 'dead':
+    case 'resolved':
+      return 'failed';
+    default:
+      return STAGE_PROGRESS[job.stage];
+  }
+}
+
+// Only exposes what the buyer needs; prompts, notes and internal errors stay server side
+export function describeOrder(job: MintJob): OrderStatus {
+  const stage = getOrderStage(job);
+  return {
+    id: job.id,
+    stage,
+    assetAddress: job.assetAddress,
+    image: job.imageUri,
+    metadata: job.uri,
+    error: job.status === 'expired'
+      ? 'No payment was received before the order expired'
+      : stage === 'failed' ? 'Minting failed' : undefined,
+    signatures: {
+      payment: job.transactionSignature,
+      transfer: job.transferSignature,
+      refund: job.refund?.signature,
+      giftReturn: job.giftEscrow?.returnSignature,
+    },
+    gift: job.giftEscrow ? { status: job.giftEscrow.status, expiresAt: job.giftEscrow.expiresAt } : undefined,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
+/**
+ * Builds the action a blink shows after the payment is signed: a completion card once the NFT
+ * has been delivered (or the order has ended), otherwise a progress card with a refresh button.
+ * Gift orders end on a card with the `claimUrl` to pass on to the recipient.
+ */
+export function buildNextAction(job: MintJob, fallbackIcon: string, claimUrl?: string): actions.NextAction {
+  const stage = getOrderStage(job);
+
+  if (stage === 'gift_pending') {
+    return {
+      type: 'completed',
+      icon: job.imageUri || fallbackIcon,
+      title: job.config?.imgName || 'Your gift',
+      label: 'Gift ready',
+      description: `${STAGE_MESSAGES[stage]}\nSend this link to ${job.gift} so they can claim it before ${new Date(job.giftEscrow!.expiresAt).toUTCString()}: ${claimUrl}`,
+    };
+  }
+
+  if (stage === 'transferred' || stage === 'gift_returned') {
+    return {
+      type: 'completed',
+      icon: job.imageUri || fallbackIcon,
+      title: job.config?.imgName || 'Your NFT',
+      label: 'Minted!',
+      description: `${STAGE_MESSAGES[stage]}\nAsset: https://core.metaplex.com/explorer/${job.assetAddress}`,
+    };
+  }
+
+  if (stage === 'refunded' || stage === 'failed') {
+    const status = describeOrder(job);
+    return {
+      type: 'completed',
+      icon: fallbackIcon,
+      title: 'Order closed',
+      label: 'Closed',
+      description: STAGE_MESSAGES[stage],
+      error: status.error ? { message: status.error } : undefined,
+    };
+  }
+
+  return {
+    type: 'action',
+    icon: fallbackIcon,
+    title: 'Your NFT is on the way!',
+    label: 'Refresh',
+    description: STAGE_MESSAGES[stage],
+    links: {
+      actions: [
+        {
+          type: 'post',
+          label: 'Refresh',
+          href: `/orders/${job.id}/refresh`,
+        },
+      ],
+    },
+  };
+}
@@ -0,0 +1,231 @@
+import { Connection, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js'
+import { PaymentRejection, PaymentRejectionReason, PaymentVerification } from './interfaces'
+import { logger } from './logger'
+
+export interface WatchedPayment {
+  orderId: string;
+  reference: PublicKey;
+  expiresAt: number;
+  // Given the transaction the watcher already fetched
+  verify: (signature: string, tx: ParsedTransactionWithMeta) => Promise<PaymentVerification>;
+}
+
+export interface PaymentResult {
+  signature: string | null;
+  amount?: number;
+  rejections: PaymentRejection[];
+}
+
+export interface PaymentWatcherOptions {
+  // Wallet every payment is sent to (token payments include it too); its log notifications drive the watcher
+  recipient: PublicKey;
+  pollIntervalMs: number;
+}
+
+export interface PaymentWatcher {
+  waitForPayment(payment: WatchedPayment): Promise<PaymentResult>;
+}
+
+interface PendingEntry {
+  payment: WatchedPayment;
+  rejections: PaymentRejection[];
+  checked: Set<string>;
+  timer?: NodeJS.Timeout;
+  resolve: (result: PaymentResult) => void;
+}
+
+const log = logger.child({ module: 'paymentWatcher' });
+
+/**
+ * Tracks every pending order in one place. New transactions touching the recipient wallet are
+ * matched against all outstanding reference keys at once, first through a log subscription and,
+ * as a fallback, through one batched `getSignaturesForAddress` poll per interval.
+ */
+export function createPaymentWatcher(connection: Connection, options: PaymentWatcherOptions): PaymentWatcher {
+  const pending = new Map<string, PendingEntry>();
+  let subscriptionId: number | null = null;
+  let pollTimer: NodeJS.Timeout | null = null;
+  let lastSignature: string | undefined;
+  let polling = false;
+
+  function settle(entry: PendingEntry, result: PaymentResult) {
+    const key = entry.payment.reference.toString();
+    if (pending.get(key) !== entry) return;
+
+    clearTimeout(entry.timer);
+    pending.delete(key);
+    entry.resolve(result);
+
+    if (pending.size === 0) {
+      stop();
+    }
+  }
+
+  async function tryCandidate(entry: PendingEntry, signature: string, tx: ParsedTransactionWithMeta) {
+    if (entry.checked.has(signature)) return;
+    entry.checked.add(signature);
+
+    let verification: PaymentVerification;
+    try {
+      verification = await entry.payment.verify(signature, tx);
+    } catch (error) {
+      // Let the next notification or poll try this signature again
+      entry.checked.delete(signature);
+      throw error;
+    }
+    // The RPC node may not have caught up with the notification yet; not a verdict on the payment
+    if (!verification.valid && verification.reason === 'transaction_not_found') {
+      entry.checked.delete(signature);
+      log.info('Payment not visible yet, will retry', { orderId: entry.payment.orderId, signature });
+      return;
+    }
+    if (verification.valid) {
+      log.info('Payment verified', { orderId: entry.payment.orderId, signature, amount: verification.amount });
+      settle(entry, { signature, amount: verification.amount, rejections: entry.rejections });
+      return;
+    }
+
+    reject(entry, signature, verification.reason, verification.detail);
+  }
+
+  function reject(entry: PendingEntry, signature: string, reason: PaymentRejectionReason, detail: string) {
+    log.warn('Payment rejected', { orderId: entry.payment.orderId, signature, reason, detail });
+    entry.rejections.push({ signature, reason, detail, checkedAt: Date.now() });
+  }
+
+  // Hands a transaction to the pending order whose reference key it carries; one carrying several pays for none
+  async function matchTransaction(signature: string, tx: ParsedTransactionWithMeta | null) {
+    if (!tx) return;
+    const candidates = tx.transaction.message.accountKeys
+      .map(key => pending.get(key.pubkey.toString()))
+      .filter((entry): entry is PendingEntry => entry !== undefined);
+
+    if (candidates.length > 1) {
+      for (const entry of candidates.filter(entry => !entry.checked.has(signature))) {
+        entry.checked.add(signature);
+        reject(entry, signature, 'multiple_references', `Transaction carries the references of ${candidates.length} orders`);
+      }
+      return;
+    }
+    for (const entry of candidates) {
+      await tryCandidate(entry, signature, tx);
+    }
+  }
+
+  async function handleSignature(signature: string) {
+    try {
+      const tx = await connection.getParsedTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      await matchTransaction(signature, tx);
+    } catch (error) {
+      log.error('Failed to inspect transaction', { signature, error });
+    }
+  }
+
+  async function poll() {
+    if (polling) return;
+    polling = true;
+
+    try {
+      const signatures = await connection.getSignaturesForAddress(
+        options.recipient,
+        { until: lastSignature, limit: 100 },
+        'confirmed'
+      );
+      if (signatures.length === 0) return;
+
+      const successful = signatures.filter(sigInfo => !sigInfo.err).map(sigInfo => sigInfo.signature);
+      const txs = await connection.getParsedTransactions(successful, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      for (let i = 0; i < successful.length; i++) {
+        await matchTransaction(successful[i], txs[i]);
+      }
+
+      // Stop short of the oldest transaction the node could not return yet, so the next poll fetches it again
+      const missing = successful.filter((_, i) => !txs[i]).pop();
+      if (missing === undefined) {
+        lastSignature = signatures[0].signature;
+      } else {
+        const oldestMissing = signatures.findIndex(sigInfo => sigInfo.signature === missing);
+        lastSignature = signatures[oldestMissing + 1]?.signature ?? lastSignature;
+      }
+    } catch (error) {
+      log.error('Poll failed', { error });
+    } finally {
+      polling = false;
+    }
+  }
+
+  function start() {
+    if (subscriptionId === null) {
+      subscriptionId = connection.onLogs(options.recipient, (logs) => {
+        if (!logs.err) {
+          handleSignature(logs.signature);
+        }
+      }, 'confirmed');
+    }
+    if (pollTimer === null) {
+      pollTimer = setInterval(poll, options.pollIntervalMs);
+    }
+  }
+
+  function stop() {
+    if (subscriptionId !== null) {
+      connection.removeOnLogsListener(subscriptionId).catch(error =>
+        log.error('Failed to remove log listener', { error })
+      );
+      subscriptionId = null;
+    }
+    if (pollTimer !== null) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  }
+
+  // Catches payments that landed before the order was (re-)registered, e.g. while the worker was down
+  async function catchUp(entry: PendingEntry) {
+    try {
+      const signatures = (await connection.getSignaturesForAddress(entry.payment.reference, { limit: 10 }, 'confirmed'))
+        .map(sigInfo => sigInfo.signature);
+      const txs = await connection.getParsedTransactions(signatures, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      for (let i = 0; i < signatures.length; i++) {
+        await matchTransaction(signatures[i], txs[i]);
+      }
+    } catch (error) {
+      log.error('Catch-up failed', { orderId: entry.payment.orderId, error });
+    }
+  }
+
+  return {
+    waitForPayment(payment) {
+      return new Promise<PaymentResult>((resolve) => {
+        const key = payment.reference.toString();
+        const previous = pending.get(key);
+        if (previous) {
+          settle(previous, { signature: null, rejections: previous.rejections });
+        }
+
+        const entry: PendingEntry = { payment, rejections: [], checked: new Set(), resolve };
+        pending.set(key, entry);
+        start();
+
+        // Only start the expiry clock once the catch-up lookup is done, so a payment made
+        // while the worker was down is not discarded as expired
+        catchUp(entry).then(() => {
+          if (pending.get(key) !== entry) return;
+          entry.timer = setTimeout(() => {
+            log.info('Order expired without a verified payment', { orderId: payment.orderId });
+            settle(entry, { signature: null, rejections: entry.rejections });
+          }, Math.max(payment.expiresAt - Date.now(), 0));
+        });
+      });
+    },
+  };
+}
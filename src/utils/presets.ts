@@ -0,0 +1,113 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { MintOptions, StylePreset } from './interfaces'
+import { ImageQuality } from './generateImage'
+
+const StylePresetSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'ids are lowercase letters, digits and dashes'),
+  label: z.string().min(1).max(64),
+  prompt: z.string().max(500),
+});
+
+export const StylePresetCatalogueSchema = z.array(StylePresetSchema).min(1)
+  .refine(presets => new Set(presets.map(preset => preset.id)).size === presets.length, 'Preset ids must be unique');
+
+export const DEFAULT_STYLE_PRESETS: StylePreset[] = [
+  { id: 'auto', label: 'Let the AI choose', prompt: '' },
+  { id: 'pixel-art', label: 'Pixel art', prompt: '16-bit pixel art, crisp square pixels, limited retro palette' },
+  { id: 'watercolor', label: 'Watercolor', prompt: 'soft watercolor painting on textured paper, gentle bleeding washes' },
+  { id: 'cosmic-astrophant', label: 'Cosmic Astrophant', prompt: 'a majestic elephant astronaut drifting through a vivid nebula, cosmic lighting, starfields' },
+];
+
+// A priced image setting the user can pick in the blink
+export interface ImageChoice<T> {
+  value: string;
+  label: string;
+  setting: T;
+  surchargeUsd: number;
+}
+
+export interface ImageChoices {
+  quality: ImageChoice<ImageQuality>[];
+  // Settings are `<width>x<height>` sizes every image provider understands
+  aspectRatio: ImageChoice<string>[];
+}
+
+export interface ImageSurcharges {
+  hdUsd: number;
+  nonSquareUsd: number;
+}
+
+// The request asked for something the catalogue does not offer
+export class MintOptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MintOptionError';
+  }
+}
+
+export function createImageChoices(surcharges: ImageSurcharges): ImageChoices {
+  return {
+    quality: [
+      { value: 'standard', label: 'Standard', setting: 'standard', surchargeUsd: 0 },
+      { value: 'hd', label: 'HD', setting: 'hd', surchargeUsd: surcharges.hdUsd },
+    ],
+    aspectRatio: [
+      { value: 'square', label: 'Square 1:1', setting: '1024x1024', surchargeUsd: 0 },
+      { value: 'portrait', label: 'Portrait 4:7', setting: '1024x1792', surchargeUsd: surcharges.nonSquareUsd },
+      { value: 'landscape', label: 'Landscape 7:4', setting: '1792x1024', surchargeUsd: surcharges.nonSquareUsd },
+    ],
+  };
+}
+
+// Reads a JSON array of `{ id, label, prompt }`; the first preset is the default
+export function loadStylePresets(filePath?: string): StylePreset[] {
+  if (!filePath) {
+    return DEFAULT_STYLE_PRESETS;
+  }
+  const result = StylePresetCatalogueSchema.safeParse(JSON.parse(readFileSync(filePath, 'utf-8')));
+  if (!result.success) {
+    throw new Error(`Invalid style presets in ${filePath}: ${result.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join('; ')}`);
+  }
+  return result.data;
+}
+
+// Label shown in the blink, with the extra cost when there is one
+export function choiceLabel(choice: ImageChoice<unknown>): string {
+  return choice.surchargeUsd > 0 ? `${choice.label} (+$${choice.surchargeUsd})` : choice.label;
+}
+
+function pick<T>(options: T[], keyOf: (option: T) => string, value: string | undefined, name: string): T {
+  if (!value) {
+    return options[0];
+  }
+  const found = options.find(option => keyOf(option) === value);
+  if (!found) {
+    throw new MintOptionError(`Unknown ${name} '${value}'`);
+  }
+  return found;
+}
+
+/**
+ * Resolves the blink's optional `style`, `quality` and `aspect_ratio` values against the
+ * catalogue, defaulting each to its first entry, and returns the options with their surcharge.
+ */
+export function resolveMintOptions(
+  query: { style?: string; quality?: string; aspectRatio?: string },
+  presets: StylePreset[],
+  choices: ImageChoices
+): { options: MintOptions; surchargeUsd: number } {
+  const preset = pick(presets, preset => preset.id, query.style, 'style');
+  const quality = pick(choices.quality, choice => choice.value, query.quality, 'quality');
+  const aspectRatio = pick(choices.aspectRatio, choice => choice.value, query.aspectRatio, 'aspect ratio');
+
+  return {
+    options: {
+      preset,
+      quality: quality.setting,
+      aspectRatio: aspectRatio.value,
+      size: aspectRatio.setting,
+    },
+    surchargeUsd: quality.surchargeUsd + aspectRatio.surchargeUsd,
+  };
+}
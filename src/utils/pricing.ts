@@ -0,0 +1,201 @@
+import axios from 'axios';
+import { PaymentCurrency, PriceQuote } from './interfaces'
+import { logger } from './logger'
+
+export interface PriceSource {
+  name: string;
+  // USD price of one SOL
+  fetchSolPrice(): Promise<number>;
+}
+
+export interface PricingOptions {
+  // How long an aggregated SOL price is reused before the sources are asked again
+  cacheTtlMs: number;
+  // How long a quote's amount stays valid for the order it was issued to
+  quoteTtlMs: number;
+  // Sources further than this fraction from the median are discarded
+  maxDeviation: number;
+  // Fewest agreeing sources needed to quote at all
+  minSources: number;
+  timeoutMs: number;
+}
+
+export interface PricingEngine {
+  getSolPrice(): Promise<{ price: number; sources: string[] }>;
+  // Prices `usd` in the currency's base units and locks it for `quoteTtlMs`
+  quote(currency: PaymentCurrency, usd: number): Promise<PriceQuote>;
+}
+
+// No usable price; orders must not be quoted rather than guessed
+export class PricingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+const log = logger.child({ module: 'pricing' });
+
+export function createCoinGeckoSource(timeoutMs: number): PriceSource {
+  return {
+    name: 'coingecko',
+    async fetchSolPrice() {
+      const { data } = await axios.get('https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd', { timeout: timeoutMs });
+      return data.solana.usd;
+    },
+  };
+}
+
+export function createBinanceSource(timeoutMs: number): PriceSource {
+  return {
+    name: 'binance',
+    async fetchSolPrice() {
+      const { data } = await axios.get('https://api.binance.com/api/v3/ticker/price?symbol=SOLUSDT', { timeout: timeoutMs });
+      return parseFloat(data.price);
+    },
+  };
+}
+
+const PYTH_SOL_USD_FEED = 'ef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d';
+
+export function createPythSource(timeoutMs: number): PriceSource {
+  return {
+    name: 'pyth',
+    async fetchSolPrice() {
+      const { data } = await axios.get(`https://hermes.pyth.network/v2/updates/price/latest?ids[]=${PYTH_SOL_USD_FEED}`, { timeout: timeoutMs });
+      const { price, expo } = data.parsed[0].price;
+      return parseInt(price) * 10 ** expo;
+    },
+  };
+}
+
+// A constant price, for dry runs that must not depend on live feeds
+export function createFixedPriceSource(price: number): PriceSource {
+  return {
+    name: 'fixed',
+    async fetchSolPrice() {
+      return price;
+    },
+  };
+}
+
+export function createPriceSources(names: string[], timeoutMs: number): PriceSource[] {
+  return names.map(name => {
+    switch (name.trim()) {
+      case 'coingecko':
+        return createCoinGeckoSource(timeoutMs);
+      case 'binance':
+        return createBinanceSource(timeoutMs);
+      case 'pyth':
+        return createPythSource(timeoutMs);
+      default:
+        throw new Error(`Unknown price source '${name}'`);
+    }
+  });
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export const SOL_CURRENCY: PaymentCurrency = { symbol: 'SOL', decimals: 9 };
+
+// Parses `SYMBOL:mint:decimals[:usdRate]`; only the mints in `usdMints` (the cluster's USDC) may leave out the rate
+export function parsePaymentTokens(value: string, usdMints: string[]): PaymentCurrency[] {
+  return value.split(',').filter(entry => entry.trim() !== '').map(entry => {
+    const [symbol, mint, decimals, usdRate] = entry.trim().split(':');
+    if (!symbol || !mint || isNaN(parseInt(decimals))) {
+      throw new Error(`Invalid payment token '${entry}', expected <symbol>:<mint>:<decimals>[:<usdRate>]`);
+    }
+    if (symbol.toUpperCase() === SOL_CURRENCY.symbol) {
+      throw new Error(`Payment token symbol '${symbol}' is reserved`);
+    }
+    if (!usdRate && !usdMints.includes(mint)) {
+      throw new Error(`Payment token '${symbol}' needs a USD rate (<symbol>:<mint>:<decimals>:<usdRate>), only USDC is priced at 1 by default`);
+    }
+    const rate = usdRate ? parseFloat(usdRate) : 1;
+    if (!isFinite(rate) || rate <= 0) {
+      throw new Error(`Invalid USD rate '${usdRate}' for payment token '${symbol}'`);
+    }
+    return { symbol: symbol.toUpperCase(), mint, decimals: parseInt(decimals), usdRate: rate };
+  });
+}
+
+/**
+ * Aggregates the SOL/USD price from every source, drops failed and outlying readings and prices
+ * a mint from the median of what remains. Concurrent callers share one in-flight refresh.
+ */
+export function createPricingEngine(sources: PriceSource[], options: PricingOptions): PricingEngine {
+  if (sources.length < options.minSources) {
+    throw new Error(`${sources.length} price sources configured, at least ${options.minSources} are required`);
+  }
+
+  let cached: { price: number; sources: string[]; fetchedAt: number } | null = null;
+  let refreshing: Promise<{ price: number; sources: string[] }> | null = null;
+
+  async function refresh() {
+    const readings = await Promise.all(sources.map(async source => {
+      try {
+        const price = await source.fetchSolPrice();
+        if (typeof price !== 'number' || !isFinite(price) || price <= 0) {
+          throw new Error(`invalid price ${price}`);
+        }
+        return { source: source.name, price };
+      } catch (error) {
+        log.warn('Price source failed', { source: source.name, error });
+        return null;
+      }
+    }));
+
+    const valid = readings.filter((reading): reading is { source: string; price: number } => reading !== null);
+    const mid = valid.length > 0 ? median(valid.map(reading => reading.price)) : 0;
+    const agreeing = valid.filter(reading => Math.abs(reading.price - mid) / mid <= options.maxDeviation);
+
+    for (const reading of valid.filter(reading => !agreeing.includes(reading))) {
+      log.warn('Discarding outlying SOL price', { source: reading.source, price: reading.price, median: mid });
+    }
+    if (agreeing.length < options.minSources) {
+      throw new PricingError(`Only ${agreeing.length} of ${sources.length} price sources agree, ${options.minSources} required`);
+    }
+
+    const price = median(agreeing.map(reading => reading.price));
+    cached = { price, sources: agreeing.map(reading => reading.source), fetchedAt: Date.now() };
+    return { price, sources: cached.sources };
+  }
+
+  const engine: PricingEngine = {
+    async getSolPrice() {
+      if (cached && Date.now() - cached.fetchedAt < options.cacheTtlMs) {
+        return { price: cached.price, sources: cached.sources };
+      }
+      if (!refreshing) {
+        refreshing = refresh().finally(() => { refreshing = null; });
+      }
+      return refreshing;
+    },
+
+    async quote(currency, usd) {
+      const { price, sources: used } = currency.usdRate !== undefined
+        ? { price: currency.usdRate, sources: ['fixed'] }
+        : await engine.getSolPrice();
+      const amount = Math.round((usd / price) * 10 ** currency.decimals);
+      const quotedAt = Date.now();
+      log.info('Quoted order', { usd, amount, currency: currency.symbol, unitPriceUsd: price, sources: used });
+      return {
+        usd,
+        currency: currency.symbol,
+        ...(currency.mint ? { mint: currency.mint } : {}),
+        decimals: currency.decimals,
+        unitPriceUsd: price,
+        amount,
+        sources: used,
+        quotedAt,
+        expiresAt: quotedAt + options.quoteTtlMs,
+      };
+    },
+  };
+
+  return engine;
+}
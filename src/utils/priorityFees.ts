@@ -0,0 +1,96 @@
+import { ComputeBudgetProgram, Connection, PublicKey, TransactionInstruction, TransactionMessage, VersionedTransaction } from '@solana/web3.js'
+import { Logger, logger } from './logger'
+
+export interface PriorityFeePolicy {
+  // Percentile (0-100) of recent prioritization fees to bid
+  percentile: number;
+  minMicroLamports: number;
+  maxMicroLamports: number;
+  // Multiplier applied to the simulated compute units as headroom
+  unitMargin: number;
+  // Compute unit limit used when the simulation cannot size the transaction
+  fallbackUnits: number;
+}
+
+export interface PriorityTransaction {
+  transaction: VersionedTransaction;
+  lastValidBlockHeight: number;
+  computeUnits: number;
+  microLamports: number;
+}
+
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+const log = logger.child({ module: 'priorityFees' });
+
+/**
+ * Bids the configured percentile of the fees recently paid to write-lock `writableAccounts`,
+ * clamped to the policy's bounds. Falls back to the minimum when the RPC cannot tell.
+ */
+export async function getPriorityFee(connection: Connection, writableAccounts: PublicKey[], policy: PriorityFeePolicy): Promise<number> {
+  let fees: number[];
+  try {
+    const recent = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: writableAccounts });
+    fees = recent.map(entry => entry.prioritizationFee).sort((a, b) => a - b);
+  } catch (error) {
+    log.error('Failed to fetch recent prioritization fees', { error });
+    return policy.minMicroLamports;
+  }
+  if (fees.length === 0) {
+    return policy.minMicroLamports;
+  }
+
+  const index = Math.min(fees.length - 1, Math.floor((policy.percentile / 100) * fees.length));
+  return Math.min(policy.maxMicroLamports, Math.max(policy.minMicroLamports, fees[index]));
+}
+
+// Simulates the instructions under the maximum limit to find out how many compute units they use
+export async function estimateComputeUnits(connection: Connection, payer: PublicKey, instructions: TransactionInstruction[], policy: PriorityFeePolicy): Promise<number> {
+  const { blockhash } = await connection.getLatestBlockhash();
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }), ...instructions],
+  }).compileToV0Message();
+
+  try {
+    const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+    });
+    if (value.err || !value.unitsConsumed) {
+      log.warn('Simulation could not size the transaction', { simulationError: value.err, fallbackUnits: policy.fallbackUnits });
+      return policy.fallbackUnits;
+    }
+    return Math.min(MAX_COMPUTE_UNITS, Math.ceil(value.unitsConsumed * policy.unitMargin));
+  } catch (error) {
+    log.error('Compute unit simulation failed', { error });
+    return policy.fallbackUnits;
+  }
+}
+
+// Prepends a simulated compute unit limit and the current priority fee, and compiles a v0 transaction
+export async function buildPriorityTransaction(connection: Connection, payer: PublicKey, instructions: TransactionInstruction[], policy: PriorityFeePolicy, txLog: Logger = log): Promise<PriorityTransaction> {
+  const writableAccounts = [...new Map(
+    instructions.flatMap(ix => ix.keys).filter(key => key.isWritable).map(key => [key.pubkey.toString(), key.pubkey])
+  ).values()];
+
+  const [computeUnits, microLamports, { blockhash, lastValidBlockHeight }] = await Promise.all([
+    estimateComputeUnits(connection, payer, instructions, policy),
+    getPriorityFee(connection, writableAccounts, policy),
+    connection.getLatestBlockhash(),
+  ]);
+
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    instructions: [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnits }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+      ...instructions,
+    ],
+  }).compileToV0Message();
+
+  txLog.info('Transaction budget', { computeUnits, microLamports });
+  return { transaction: new VersionedTransaction(message), lastValidBlockHeight, computeUnits, microLamports };
+}
@@ -0,0 +1,179 @@
+import Redis from 'ioredis';
+
+export interface LimiterStore {
+  // Fixed-window counter; returns the hits so far in the current window
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+  addPending(key: string, member: string, expiresAt: number): Promise<void>;
+  removePending(key: string, member: string): Promise<void>;
+  countPending(key: string): Promise<number>;
+}
+
+export interface RateLimitOptions {
+  windowMs: number;
+  perIp: number;
+  perWallet: number;
+  maxPendingPerWallet: number;
+  walletDenylist: string[];
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: 'ip_rate_limited' | 'wallet_rate_limited' | 'too_many_pending' | 'wallet_denied';
+      message: string;
+      retryAfterMs?: number;
+    };
+
+export interface RateLimiter {
+  checkIp(ip: string): Promise<RateLimitResult>;
+  checkWallet(wallet: string): Promise<RateLimitResult>;
+  // Pending orders count against their wallet until paid, released or expired
+  trackPending(wallet: string, orderId: string, expiresAt: number): Promise<void>;
+  releasePending(wallet: string, orderId: string): Promise<void>;
+}
+
+// Single-instance store; state is lost on restart, which only resets the limits
+export function createMemoryLimiterStore(): LimiterStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  const pending = new Map<string, Map<string, number>>();
+  let nextSweepAt = 0;
+
+  // Every new IP and wallet adds a key, so expired ones are dropped at most once per window
+  function sweep(now: number, windowMs: number) {
+    if (now < nextSweepAt) return;
+    nextSweepAt = now + windowMs;
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+    for (const key of [...pending.keys()]) {
+      livePending(key);
+    }
+  }
+
+  function livePending(key: string): Map<string, number> {
+    const members = pending.get(key) || new Map<string, number>();
+    const now = Date.now();
+    for (const [member, expiresAt] of members) {
+      if (expiresAt <= now) members.delete(member);
+    }
+    if (members.size === 0) {
+      pending.delete(key);
+    }
+    return members;
+  }
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      sweep(now, windowMs);
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+      window.count += 1;
+      return { ...window };
+    },
+
+    async addPending(key, member, expiresAt) {
+      const members = livePending(key);
+      members.set(member, expiresAt);
+      pending.set(key, members);
+    },
+
+    async removePending(key, member) {
+      livePending(key).delete(member);
+    },
+
+    async countPending(key) {
+      return livePending(key).size;
+    },
+  };
+}
+
+// Shared store for several instances; pending orders live in a sorted set scored by expiry
+export function createRedisLimiterStore(client: Redis, prefix = 'ratelimit'): LimiterStore {
+  return {
+    async increment(key, windowMs) {
+      const redisKey = `${prefix}:${key}`;
+      const [[, count], [, ttl]] = await client
+        .multi()
+        .incr(redisKey)
+        .pttl(redisKey)
+        .exec() as [[Error | null, number], [Error | null, number]];
+
+      if (ttl < 0) {
+        await client.pexpire(redisKey, windowMs);
+        return { count, resetAt: Date.now() + windowMs };
+      }
+      return { count, resetAt: Date.now() + ttl };
+    },
+
+    async addPending(key, member, expiresAt) {
+      await client.zadd(`${prefix}:pending:${key}`, expiresAt, member);
+    },
+
+    async removePending(key, member) {
+      await client.zrem(`${prefix}:pending:${key}`, member);
+    },
+
+    async countPending(key) {
+      const redisKey = `${prefix}:pending:${key}`;
+      await client.zremrangebyscore(redisKey, '-inf', Date.now());
+      return client.zcard(redisKey);
+    },
+  };
+}
+
+export function createRateLimiter(store: LimiterStore, options: RateLimitOptions): RateLimiter {
+  const denylist = new Set(options.walletDenylist.map(wallet => wallet.trim()).filter(Boolean));
+
+  return {
+    async checkIp(ip) {
+      const { count, resetAt } = await store.increment(`ip:${ip}`, options.windowMs);
+      if (count > options.perIp) {
+        return {
+          allowed: false,
+          reason: 'ip_rate_limited',
+          message: 'Too many requests, please slow down and try again shortly.',
+          retryAfterMs: resetAt - Date.now(),
+        };
+      }
+      return { allowed: true };
+    },
+
+    async checkWallet(wallet) {
+      if (denylist.has(wallet)) {
+        return { allowed: false, reason: 'wallet_denied', message: 'This wallet is not allowed to mint.' };
+      }
+
+      const { count, resetAt } = await store.increment(`wallet:${wallet}`, options.windowMs);
+      if (count > options.perWallet) {
+        return {
+          allowed: false,
+          reason: 'wallet_rate_limited',
+          message: 'Too many mint requests from this wallet, please try again shortly.',
+          retryAfterMs: resetAt - Date.now(),
+        };
+      }
+
+      if (await store.countPending(wallet) >= options.maxPendingPerWallet) {
+        return {
+          allowed: false,
+          reason: 'too_many_pending',
+          message: 'You already have unpaid orders waiting, complete or let them expire before starting a new one.',
+        };
+      }
+      return { allowed: true };
+    },
+
+    trackPending(wallet, orderId, expiresAt) {
+      return store.addPending(wallet, orderId, expiresAt);
+    },
+
+    releasePending(wallet, orderId) {
+      return store.removePending(wallet, orderId);
+    },
+  };
+}
@@ -0,0 +1,176 @@
+import { Connection, Keypair, PublicKey, SystemProgram, Transaction, TransactionInstruction } from '@solana/web3.js'
+import { MEMO_PROGRAM_ID } from '@solana/spl-memo';
+import { base58 } from '@metaplex-foundation/umi/serializers';
+import { MintJob } from './interfaces'
+import { isOrderId, JobStore } from './jobStore'
+import { createAssociatedTokenAccountIdempotentInstruction, createTransferCheckedInstruction } from './splToken'
+import { logger } from './logger'
+
+export interface RefundOptions {
+  // Keep the network fee of the refund transaction out of the refunded amount (SOL payments only)
+  deductNetworkFee: boolean;
+}
+
+export interface Refunder {
+  refund(jobId: string, reason: string): Promise<MintJob>;
+}
+
+const log = logger.child({ module: 'refund' });
+
+// Outlives the refund transaction's blockhash, so the lock is held until it confirms or can no longer land
+const REFUND_LOCK_TTL_MS = 5 * 60 * 1000;
+
+export class RefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+/**
+ * Sends a paid order's SOL or tokens back to the payer. The refund signature is stored on the order
+ * before the transaction is broadcast, so a retried or repeated refund first checks the earlier
+ * attempt and only builds a new transaction once that one can no longer land. A store lock keeps
+ * workers sharing the store from refunding the same order at once.
+ */
+export function createRefunder(store: JobStore, connection: Connection, payer: Keypair, options: RefundOptions): Refunder {
+  // Serializes refunds of the same order within this process
+  const inFlight = new Map<string, Promise<MintJob>>();
+
+  async function confirmRefund(job: MintJob) {
+    job.refund!.status = 'confirmed';
+    job.refund!.confirmedAt = Date.now();
+    job.status = 'refunded';
+    job.updatedAt = Date.now();
+    await store.save(job);
+    log.info('Order refunded', { orderId: job.id, amount: job.refund!.amount, currency: job.quote.currency, signature: job.refund!.signature });
+    return job;
+  }
+
+  // Returns true when the previous attempt can be considered dead and a new one may be sent
+  async function previousAttemptExpired(job: MintJob): Promise<boolean> {
+    const { value } = await connection.getSignatureStatus(job.refund!.signature, { searchTransactionHistory: true });
+    if (value && !value.err && (value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized')) {
+      await confirmRefund(job);
+      return false;
+    }
+    if (!value?.err) {
+      const blockHeight = await connection.getBlockHeight('confirmed');
+      if (blockHeight <= job.refund!.lastValidBlockHeight) {
+        throw new RefundError(`Refund ${job.refund!.signature} for order ${job.id} is still in flight, try again later`);
+      }
+    }
+
+    // Failed or expired: recorded so the order can be re-run instead if the new attempt does not go out
+    job.refund!.status = 'failed';
+    job.updatedAt = Date.now();
+    await store.save(job);
+    return true;
+  }
+
+  async function lockedRefund(jobId: string, reason: string): Promise<MintJob> {
+    if (!isOrderId(jobId)) {
+      throw new RefundError(`Order ${jobId} not found`);
+    }
+    const release = await store.lock(`refund-${jobId}`, REFUND_LOCK_TTL_MS);
+    if (!release) {
+      throw new RefundError(`Order ${jobId} is already being refunded by another worker, try again later`);
+    }
+    try {
+      return await sendRefund(jobId, reason);
+    } finally {
+      await release().catch(error => log.error('Failed to release refund lock', { orderId: jobId, error }));
+    }
+  }
+
+  async function sendRefund(jobId: string, reason: string): Promise<MintJob> {
+    const job = await store.get(jobId);
+    if (!job) {
+      throw new RefundError(`Order ${jobId} not found`);
+    }
+    if (job.status === 'pending') {
+      throw new RefundError(`Order ${jobId} is still being processed`);
+    }
+    if (!job.transactionSignature || !job.paidAmount) {
+      throw new RefundError(`Order ${jobId} has no verified payment to refund`);
+    }
+    if (job.refund?.status === 'confirmed') {
+      log.info('Order was already refunded', { orderId: jobId, signature: job.refund.signature });
+      return job;
+    }
+    if (job.refund?.status === 'pending' && !(await previousAttemptExpired(job))) {
+      return job;
+    }
+
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+    const userAccount = new PublicKey(job.userAccount);
+    const buildTransaction = (amount: number) => {
+      const transaction = new Transaction({ feePayer: payer.publicKey, blockhash, lastValidBlockHeight });
+      if (job.quote.mint) {
+        // Token refunds go back to the payer's associated account, recreated if they closed it
+        const mint = new PublicKey(job.quote.mint);
+        transaction.add(
+          createAssociatedTokenAccountIdempotentInstruction(payer.publicKey, userAccount, mint),
+          createTransferCheckedInstruction(mint, payer.publicKey, userAccount, amount, job.quote.decimals)
+        );
+      } else {
+        transaction.add(SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: userAccount, lamports: amount }));
+      }
+      transaction.add(
+        new TransactionInstruction({
+          keys: [],
+          programId: MEMO_PROGRAM_ID,
+          data: Buffer.from(`refund:${job.id}`, 'utf-8'),
+        })
+      );
+      return transaction;
+    };
+
+    let amount = job.paidAmount;
+    if (options.deductNetworkFee && !job.quote.mint) {
+      const { value: fee } = await connection.getFeeForMessage(buildTransaction(amount).compileMessage(), 'confirmed');
+      amount -= fee ?? 5000;
+    }
+    if (amount <= 0) {
+      throw new RefundError(`Nothing left to refund for order ${jobId} after network fees`);
+    }
+
+    const transaction = buildTransaction(amount);
+    transaction.sign(payer);
+    const signature = base58.deserialize(transaction.signature!)[0];
+
+    job.refund = {
+      status: 'pending',
+      signature,
+      amount,
+      lastValidBlockHeight,
+      reason,
+      requestedAt: Date.now(),
+    };
+    job.updatedAt = Date.now();
+    await store.save(job);
+
+    log.info('Refunding order', { orderId: job.id, amount, currency: job.quote.currency, recipient: job.userAccount });
+    await connection.sendRawTransaction(transaction.serialize());
+    const confirmation = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+    if (confirmation.value.err) {
+      job.refund.status = 'failed';
+      job.updatedAt = Date.now();
+      await store.save(job);
+      throw new RefundError(`Refund ${signature} failed on chain: ${JSON.stringify(confirmation.value.err)}`);
+    }
+
+    return confirmRefund(job);
+  }
+
+  return {
+    refund(jobId, reason) {
+      const existing = inFlight.get(jobId);
+      if (existing) return existing;
+
+      const attempt = lockedRefund(jobId, reason).finally(() => inFlight.delete(jobId));
+      inFlight.set(jobId, attempt);
+      return attempt;
+    },
+  };
+}
@@ -1,23 +1,125 @@
 import OpenAI from 'openai';
-import dotenv from 'dotenv';
-
-dotenv.config();
-
-const oai_client = new OpenAI({apiKey: process.env['OPENAI_API_KEY']});
-
-export async function safePrompting(userPrompt: string): Promise<string> {
-    try {
-      const moderation = await oai_client.moderations.create({ input: userPrompt });
-  
-      if (moderation.results[0].flagged === true) {
-        console.log(`The prompt '${userPrompt}' is unsafe! 🚨`)
-        return 'unsafe';
-      } else {
-        console.log(`The prompt '${userPrompt}' is safe! 🟢`)
-        return 'safe';
+import { SafetyLayer, SafetyVerdict } from './interfaces'
+import { logger } from './logger'
+
+export interface SafetyCheck {
+  layer: SafetyLayer;
+  // Returns the flagged categories; an empty list means the input passed
+  checkText?(text: string): Promise<string[]>;
+  checkImage?(image: Buffer, contentType: string): Promise<string[]>;
+}
+
+export interface SafetyResult {
+  safe: boolean;
+  verdicts: SafetyVerdict[];
+}
+
+export interface SafetyPipeline {
+  checkText(subject: string, text: string): Promise<SafetyResult>;
+  checkTexts(texts: Record<string, string>): Promise<SafetyResult>;
+  checkImage(subject: string, image: Buffer, contentType: string): Promise<SafetyResult>;
+}
+
+const log = logger.child({ module: 'safety' });
+
+// A check could not run; callers must treat the input as unsafe
+export class SafetyUnavailableError extends Error {
+  constructor(layer: SafetyLayer, cause: unknown) {
+    super(`Safety check '${layer}' is unavailable: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'SafetyUnavailableError';
+  }
+}
+
+function flaggedCategories(result: OpenAI.Moderation): string[] {
+  if (!result.flagged) return [];
+  return Object.entries(result.categories)
+    .filter(([, flagged]) => flagged)
+    .map(([category]) => category);
+}
+
+// Local first line of defence: case-insensitive patterns, no network needed
+export function createDenylistCheck(patterns: string[]): SafetyCheck {
+  const compiled = patterns
+    .map(pattern => pattern.trim())
+    .filter(pattern => pattern !== '')
+    .map(pattern => ({ pattern, regex: new RegExp(pattern, 'i') }));
+
+  return {
+    layer: 'denylist',
+    async checkText(text) {
+      return compiled
+        .filter(({ regex }) => regex.test(text))
+        .map(({ pattern }) => `denylist:${pattern}`);
+    },
+  };
+}
+
+export function createModerationCheck(client: OpenAI): SafetyCheck {
+  return {
+    layer: 'moderation',
+    async checkText(text) {
+      const moderation = await client.moderations.create({ model: 'omni-moderation-latest', input: text });
+      return flaggedCategories(moderation.results[0]);
+    },
+  };
+}
+
+export function createImageModerationCheck(client: OpenAI): SafetyCheck {
+  return {
+    layer: 'image_moderation',
+    async checkImage(image, contentType) {
+      const moderation = await client.moderations.create({
+        model: 'omni-moderation-latest',
+        input: [{ type: 'image_url', image_url: { url: `data:${contentType};base64,${image.toString('base64')}` } }],
+      });
+      return flaggedCategories(moderation.results[0]);
+    },
+  };
+}
+
+/**
+ * Runs every applicable check and collects one verdict per layer. Any check that throws makes
+ * the whole pipeline throw, so an outage never lets unchecked content through.
+ */
+export function createSafetyPipeline(checks: SafetyCheck[]): SafetyPipeline {
+  async function run(subject: string, applicable: SafetyCheck[], check: (c: SafetyCheck) => Promise<string[]>): Promise<SafetyResult> {
+    const verdicts = await Promise.all(applicable.map(async (c): Promise<SafetyVerdict> => {
+      let categories: string[];
+      try {
+        categories = await check(c);
+      } catch (error) {
+        log.error('Safety check failed', { layer: c.layer, subject, error });
+        throw new SafetyUnavailableError(c.layer, error);
       }
-    } catch (error) {
-      console.error('Error during moderation request:', error);
-      throw new Error('Failed to check prompt safety.');
-    }
-  }
\ No newline at end of file
+      return { subject, layer: c.layer, flagged: categories.length > 0, categories, checkedAt: Date.now() };
+    }));
+
+    const safe = verdicts.every(verdict => !verdict.flagged);
+    log.info('Safety check', { subject, safe });
+    return { safe, verdicts };
+  }
+
+  const pipeline: SafetyPipeline = {
+    checkText(subject, text) {
+      return run(subject, checks.filter(c => c.checkText), c => c.checkText!(text));
+    },
+
+    async checkTexts(texts) {
+      const results = await Promise.all(
+        Object.entries(texts)
+          .filter(([, text]) => text.trim() !== '')
+          .map(([subject, text]) => pipeline.checkText(subject, text))
+      );
+      return {
+        safe: results.every(result => result.safe),
+        verdicts: results.flatMap(result => result.verdicts),
+      };
+    },
+
+    checkImage(subject, image, contentType) {
+      return run(subject, checks.filter(c => c.checkImage), c => c.checkImage!(image, contentType));
+    },
+  };
+
+  return pipeline;
+}
@@ -0,0 +1,133 @@
+import OpenAI from 'openai';
+import { Connection, Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js'
+import { Umi, keypairIdentity } from '@metaplex-foundation/umi';
+import { createUmi } from '@metaplex-foundation/umi-bundle-defaults';
+import { mplCore } from '@metaplex-foundation/mpl-core';
+import { irysUploader } from '@metaplex-foundation/umi-uploader-irys';
+import { AppConfig, ConfigError, loadSettings } from './config'
+import { createImageModerationCheck, createModerationCheck, SafetyCheck } from './safety'
+import { createImageProvider, createPlaceholderProvider, ImageProvider } from './generateImage'
+import { createFakeTextGenerator, createOpenAITextGenerator, TextGenerator } from './textGenerator'
+import { createFixedPriceSource, createPriceSources, PriceSource } from './pricing'
+import { createLocalStorage, createStorage, StorageBackend } from './storage'
+import { logger } from './logger'
+
+// Every external client the app talks to, so it can be assembled against fakes
+export interface AppServices {
+  // Receives payments, pays for and signs every mint-side transaction
+  minter: Keypair;
+  umi: Umi;
+  connection: Connection;
+  textGenerator: TextGenerator;
+  // Remote content checks; the local denylist is always added by the app
+  moderationChecks: SafetyCheck[];
+  imageProvider: ImageProvider;
+  priceSources: PriceSource[];
+  storage: StorageBackend;
+  // True when OpenAI, the price feeds and remote storage are replaced by in-process fakes
+  dryRun: boolean;
+}
+
+const log = logger.child({ module: 'services' });
+
+// MINTER_PRIVATE_KEY is the secret key as comma-separated bytes
+export function loadMinterKeypair(env: NodeJS.ProcessEnv): Keypair {
+  const privateKeyString = env.MINTER_PRIVATE_KEY;
+  if (!privateKeyString) {
+    throw new ConfigError(['MINTER_PRIVATE_KEY is not set']);
+  }
+  return Keypair.fromSecretKey(new Uint8Array(privateKeyString.split(',').map(num => parseInt(num, 10))));
+}
+
+function createMinterUmi(config: AppConfig, minter: Keypair, withIrys: boolean): Umi {
+  const umi = createUmi(config.rpcUrl).use(mplCore());
+  if (withIrys) {
+    umi.use(irysUploader());
+  }
+  return umi.use(keypairIdentity(umi.eddsa.createKeypairFromSecretKey(minter.secretKey)));
+}
+
+function localStorageDir(env: NodeJS.ProcessEnv): string {
+  return env.LOCAL_STORAGE_DIR || './data/storage/';
+}
+
+function localStorageUrl(config: AppConfig, env: NodeJS.ProcessEnv): string {
+  return env.LOCAL_STORAGE_URL || `${config.baseUrl || `http://localhost:${config.port}`}/storage`;
+}
+
+export function createServices(config: AppConfig, env: NodeJS.ProcessEnv): AppServices {
+  const minter = loadMinterKeypair(env);
+  const umi = createMinterUmi(config, minter, true);
+  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
+  const settings = loadSettings(env);
+
+  return {
+    minter,
+    umi,
+    connection: new Connection(config.rpcUrl, 'confirmed'),
+    textGenerator: createOpenAITextGenerator(openai, config.llmModel, settings.LLM_MAX_RETRIES),
+    moderationChecks: [createModerationCheck(openai), createImageModerationCheck(openai)],
+    imageProvider: createImageProvider({
+      provider: env.IMAGE_PROVIDER || 'openai',
+      openai,
+      openaiModel: env.OPENAI_IMAGE_MODEL,
+      stableDiffusionUrl: env.STABLE_DIFFUSION_URL,
+    }),
+    priceSources: createPriceSources((env.PRICE_SOURCES || 'coingecko,binance,pyth').split(','), settings.PRICE_SOURCE_TIMEOUT_MS),
+    storage: createStorage({
+      backend: env.STORAGE_BACKEND || 'irys',
+      ipfs: env.IPFS_UPLOAD_URL ? {
+        uploadUrl: env.IPFS_UPLOAD_URL,
+        apiToken: env.IPFS_API_TOKEN,
+        gatewayUrl: env.IPFS_GATEWAY_URL || 'https://ipfs.io/ipfs/',
+      } : undefined,
+      s3: env.S3_ENDPOINT && env.S3_BUCKET ? {
+        endpoint: env.S3_ENDPOINT,
+        region: env.S3_REGION || 'auto',
+        bucket: env.S3_BUCKET,
+        accessKeyId: env.S3_ACCESS_KEY_ID || '',
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY || '',
+        publicUrl: env.S3_PUBLIC_URL,
+      } : undefined,
+      local: { dir: localStorageDir(env), publicUrl: localStorageUrl(config, env) },
+    }, umi),
+    dryRun: false,
+  };
+}
+
+/**
+ * Real chain, fake everything else: transactions go to the profile's cluster (a local test
+ * validator with the MPL Core program loaded, or devnet) while prompts, moderation, images,
+ * prices and uploads are served in-process. Without MINTER_PRIVATE_KEY a throwaway minter is
+ * generated; fund it with `fundDryRunMinter`.
+ */
+export function createDryRunServices(config: AppConfig, env: NodeJS.ProcessEnv): AppServices {
+  if (config.cluster === 'mainnet') {
+    throw new ConfigError(['DRY_RUN is only allowed with the localnet or devnet profile']);
+  }
+  const minter = env.MINTER_PRIVATE_KEY ? loadMinterKeypair(env) : Keypair.generate();
+
+  return {
+    minter,
+    umi: createMinterUmi(config, minter, false),
+    connection: new Connection(config.rpcUrl, 'confirmed'),
+    textGenerator: createFakeTextGenerator(),
+    moderationChecks: [],
+    imageProvider: createPlaceholderProvider(),
+    priceSources: [createFixedPriceSource(loadSettings(env).DRY_RUN_SOL_PRICE)],
+    storage: createLocalStorage(localStorageDir(env), localStorageUrl(config, env)),
+    dryRun: true,
+  };
+}
+
+// Airdrops SOL to the minter when it cannot pay for the collection, mints and refunds
+export async function fundDryRunMinter(services: AppServices, minimumSol = 1): Promise<void> {
+  const balance = await services.connection.getBalance(services.minter.publicKey);
+  if (balance >= minimumSol * LAMPORTS_PER_SOL) {
+    return;
+  }
+  const signature = await services.connection.requestAirdrop(services.minter.publicKey, 2 * minimumSol * LAMPORTS_PER_SOL);
+  const latest = await services.connection.getLatestBlockhash();
+  await services.connection.confirmTransaction({ signature, ...latest }, 'confirmed');
+  log.info('Funded dry-run minter', { minter: services.minter.publicKey.toString(), sol: 2 * minimumSol });
+}
@@ -0,0 +1,30 @@
+import { Server as HttpServer } from 'http';
+import { Server } from 'socket.io';
+import { EventBus } from './events'
+import { logger } from './logger'
+
+// Clients join one room per order with `subscribe` and receive every `mint_event` for it
+export function attachSocketServer(server: HttpServer, events: EventBus): Server {
+  const io = new Server(server, { cors: { origin: '*' } });
+
+  io.on('connection', (socket) => {
+    socket.on('subscribe', (orderId: unknown) => {
+      if (typeof orderId === 'string' && orderId !== '') {
+        socket.join(`order:${orderId}`);
+      }
+    });
+
+    socket.on('unsubscribe', (orderId: unknown) => {
+      if (typeof orderId === 'string') {
+        socket.leave(`order:${orderId}`);
+      }
+    });
+  });
+
+  events.subscribe(event => {
+    io.to(`order:${event.orderId}`).emit('mint_event', event);
+  });
+
+  logger.info('Socket.IO progress stream attached', { module: 'socket' });
+  return io;
+}
@@ -0,0 +1,54 @@
+import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js'
+
+// The handful of SPL Token instructions we need. @solana/spl-token's typings need TypeScript 5,
+// so the instructions are encoded here instead.
+
+export const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+
+// Instruction indexes from the token and associated-token programs
+const TRANSFER_CHECKED = 12;
+const CREATE_IDEMPOTENT = 1;
+
+export function getAssociatedTokenAddress(mint: PublicKey, owner: PublicKey): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), TOKEN_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+  return address;
+}
+
+// Creates `owner`'s associated token account for `mint` unless it already exists
+export function createAssociatedTokenAccountIdempotentInstruction(payer: PublicKey, owner: PublicKey, mint: PublicKey): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: getAssociatedTokenAddress(mint, owner), isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from([CREATE_IDEMPOTENT]),
+  });
+}
+
+// Moves `amount` base units between the associated token accounts of `from` and `to`
+export function createTransferCheckedInstruction(mint: PublicKey, from: PublicKey, to: PublicKey, amount: number, decimals: number): TransactionInstruction {
+  const data = Buffer.alloc(10);
+  data.writeUInt8(TRANSFER_CHECKED, 0);
+  data.writeBigUInt64LE(BigInt(amount), 1);
+  data.writeUInt8(decimals, 9);
+
+  return new TransactionInstruction({
+    programId: TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: getAssociatedTokenAddress(mint, from), isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: getAssociatedTokenAddress(mint, to), isSigner: false, isWritable: true },
+      { pubkey: from, isSigner: true, isWritable: false },
+    ],
+    data,
+  });
+}
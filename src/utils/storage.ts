@@ -0,0 +1,184 @@
+import * as path from 'path';
+import axios from 'axios';
+import { promises } from 'fs';
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { Umi, createGenericFile } from '@metaplex-foundation/umi';
+
+export interface StorageBackend {
+  name: string;
+  // `key` is a path-like name such as `<orderId>/image.png`; returns the public URI
+  upload(key: string, data: Buffer, contentType: string): Promise<string>;
+  // Set when the app itself has to serve the uploaded files
+  localDir?: string;
+}
+
+export interface StorageConfig {
+  backend: string;
+  ipfs?: {
+    uploadUrl: string;
+    apiToken?: string;
+    gatewayUrl: string;
+  };
+  s3?: S3Config;
+  local?: {
+    dir: string;
+    publicUrl: string;
+  };
+}
+
+export interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Base URL objects are served from, if not `<endpoint>/<bucket>`
+  publicUrl?: string;
+}
+
+export async function uploadJson(storage: StorageBackend, key: string, json: object): Promise<string> {
+  return storage.upload(key, Buffer.from(JSON.stringify(json)), 'application/json');
+}
+
+export function createIrysStorage(umi: Umi): StorageBackend {
+  return {
+    name: 'irys',
+    async upload(key, data, contentType) {
+      const fileName = path.basename(key);
+      const file = createGenericFile(data, fileName, {
+        uniqueName: key,
+        contentType,
+        extension: fileName.split('.').pop(),
+        tags: [{ name: 'Content-Type', value: contentType }],
+      });
+      const [uri] = await umi.uploader.upload([file]);
+      if (!uri) {
+        throw new Error(`Irys upload of ${key} returned no URI`);
+      }
+      return uri;
+    },
+  };
+}
+
+/**
+ * Uploads through any endpoint that takes a multipart `file` field and answers with the CID,
+ * e.g. Pinata's `pinFileToIPFS` or a Kubo node's `/api/v0/add?pin=true`.
+ */
+export function createIpfsStorage(config: NonNullable<StorageConfig['ipfs']>): StorageBackend {
+  return {
+    name: 'ipfs',
+    async upload(key, data, contentType) {
+      const boundary = `----astrophant${randomBytes(12).toString('hex')}`;
+      const body = Buffer.concat([
+        Buffer.from(
+          `--${boundary}\r\n` +
+          `Content-Disposition: form-data; name="file"; filename="${path.basename(key)}"\r\n` +
+          `Content-Type: ${contentType}\r\n\r\n`
+        ),
+        data,
+        Buffer.from(`\r\n--${boundary}--\r\n`),
+      ]);
+
+      const response = await axios.post(config.uploadUrl, body, {
+        headers: {
+          'Content-Type': `multipart/form-data; boundary=${boundary}`,
+          ...(config.apiToken ? { Authorization: `Bearer ${config.apiToken}` } : {}),
+        },
+        maxBodyLength: Infinity,
+      });
+
+      const cid = response.data?.IpfsHash || response.data?.Hash || response.data?.cid;
+      if (!cid) {
+        throw new Error(`IPFS upload of ${key} returned no CID`);
+      }
+      return `${config.gatewayUrl.replace(/\/$/, '')}/${cid}`;
+    },
+  };
+}
+
+function sha256Hex(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// Path-style PUT signed with AWS Signature V4, which every S3-compatible store (R2, MinIO, ...) accepts
+export function createS3Storage(config: S3Config): StorageBackend {
+  const endpoint = new URL(config.endpoint);
+
+  return {
+    name: 's3',
+    async upload(key, data, contentType) {
+      const objectPath = `/${config.bucket}/${key.split('/').map(encodeURIComponent).join('/')}`;
+      const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+      const dateStamp = amzDate.slice(0, 8);
+      const payloadHash = sha256Hex(data);
+
+      const signedHeaders = 'content-type;host;x-amz-content-sha256;x-amz-date';
+      const canonicalRequest = [
+        'PUT',
+        objectPath,
+        '',
+        `content-type:${contentType}`,
+        `host:${endpoint.host}`,
+        `x-amz-content-sha256:${payloadHash}`,
+        `x-amz-date:${amzDate}`,
+        '',
+        signedHeaders,
+        payloadHash,
+      ].join('\n');
+
+      const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+      const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+      const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'), 'aws4_request');
+      const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+      await axios.put(`${endpoint.origin}${objectPath}`, data, {
+        headers: {
+          'Content-Type': contentType,
+          'x-amz-content-sha256': payloadHash,
+          'x-amz-date': amzDate,
+          Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        },
+        maxBodyLength: Infinity,
+      });
+
+      const publicUrl = (config.publicUrl || `${endpoint.origin}/${config.bucket}`).replace(/\/$/, '');
+      return `${publicUrl}/${key}`;
+    },
+  };
+}
+
+// Development only: files land in `dir` and are served by the app itself
+export function createLocalStorage(dir: string, publicUrl: string): StorageBackend {
+  return {
+    name: 'local',
+    localDir: dir,
+    async upload(key, data) {
+      const filePath = path.join(dir, key);
+      await promises.mkdir(path.dirname(filePath), { recursive: true });
+      await promises.writeFile(filePath, data);
+      return `${publicUrl.replace(/\/$/, '')}/${key}`;
+    },
+  };
+}
+
+export function createStorage(config: StorageConfig, umi: Umi): StorageBackend {
+  switch (config.backend) {
+    case 'irys':
+      return createIrysStorage(umi);
+    case 'ipfs':
+      if (!config.ipfs) throw new Error('The ipfs storage backend needs an upload url');
+      return createIpfsStorage(config.ipfs);
+    case 's3':
+      if (!config.s3) throw new Error('The s3 storage backend needs an endpoint, bucket and credentials');
+      return createS3Storage(config.s3);
+    case 'local':
+      if (!config.local) throw new Error('The local storage backend needs a directory');
+      return createLocalStorage(config.local.dir, config.local.publicUrl);
+    default:
+      throw new Error(`Unknown storage backend '${config.backend}'`);
+  }
+}
@@ -0,0 +1,113 @@
+import OpenAI from 'openai';
+import Instructor from '@instructor-ai/instructor';
+import { StylePreset } from './interfaces'
+import { EnhancedPrompt, EnhancedPromptSchema, GenerationError, NftAttributes, NftAttributesSchema } from './llmSchemas'
+
+// System prompts of the two LLM steps; campaigns can bring their own
+export interface SystemPrompts {
+  // `{{style_guidance}}` is replaced by the picked preset's guidance, which is appended when it is missing
+  enhance: string;
+  describe: string;
+}
+
+export const DEFAULT_SYSTEM_PROMPTS: SystemPrompts = {
+  enhance: [
+    "Rewrite the user's prompt for an image generator.",
+    'Enhance it to augment its artistic qualities and uniqueness, and name the requested artistic style and the desired mood.',
+    '{{style_guidance}}',
+    'Return the adapted prompt without any added comments, title or information.',
+  ].join('\n'),
+  describe: [
+    "Based on the user's image prompt, name the artwork and describe it for its NFT metadata.",
+    'The title must be ONE creative word.',
+  ].join('\n'),
+};
+
+// The two LLM steps of the pipeline; both return schema-validated output or throw a GenerationError
+export interface TextGenerator {
+  enhancePrompt(userPrompt: string, preset: StylePreset, prompts: SystemPrompts): Promise<EnhancedPrompt>;
+  describe(enhanced: EnhancedPrompt, prompts: SystemPrompts): Promise<NftAttributes>;
+}
+
+function enhanceSystemPrompt(template: string, styleGuidance: string): string {
+  return template.includes('{{style_guidance}}')
+    ? template.split('{{style_guidance}}').join(styleGuidance)
+    : `${template}\n${styleGuidance}`;
+}
+
+export function createOpenAITextGenerator(client: OpenAI, model: string, maxRetries: number): TextGenerator {
+  const instructor_client = Instructor({ client, mode: "TOOLS" });
+
+  return {
+    async enhancePrompt(userPrompt, preset, prompts) {
+      const styleGuidance = preset.prompt
+        ? `The user picked the '${preset.label}' style preset: ${preset.prompt}. Keep the rewrite faithful to it.`
+        : '';
+      try {
+        return await instructor_client.chat.completions.create({
+          messages: [
+              {
+                  role: "system",
+                  content: enhanceSystemPrompt(prompts.enhance, styleGuidance)
+              },
+              {
+                  role: "user",
+                  content: userPrompt
+              }
+          ],
+          model,
+          temperature: 0.5,
+          response_model: { schema: EnhancedPromptSchema, name: "EnhancedPrompt" },
+          max_retries: maxRetries,
+        });
+      } catch (error) {
+        throw new GenerationError('prompt', error);
+      }
+    },
+
+    async describe(enhanced, prompts) {
+      try {
+        return await instructor_client.chat.completions.create({
+          messages: [
+              {
+                  role: "system",
+                  content: prompts.describe
+              },
+              {
+                role: "user",
+                content: enhanced.prompt,
+            }
+          ],
+          model,
+          temperature: 0.5,
+          response_model: { schema: NftAttributesSchema, name: "NftAttributes" },
+          max_retries: maxRetries,
+        });
+      } catch (error) {
+        throw new GenerationError('attributes', error);
+      }
+    },
+  };
+}
+
+// Deterministic stand-in for dry runs: echoes the prompt back through the same schemas
+export function createFakeTextGenerator(): TextGenerator {
+  return {
+    async enhancePrompt(userPrompt, preset) {
+      return EnhancedPromptSchema.parse({
+        prompt: [userPrompt, preset.prompt].filter(part => part !== '').join(', ').slice(0, 1000),
+        style: preset.id === 'auto' ? 'digital painting' : preset.label,
+        mood: 'serene',
+      });
+    },
+
+    async describe(enhanced) {
+      return NftAttributesSchema.parse({
+        title: 'Dryrun',
+        description: `A dry-run artwork for: ${enhanced.prompt}`.slice(0, 200),
+        mood: enhanced.mood,
+        haiku: 'Quiet test cluster / lamports drift between wallets / nothing here is real',
+      });
+    },
+  };
+}
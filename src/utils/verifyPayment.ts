@@ -0,0 +1,95 @@
+import { ParsedInstruction, ParsedTransactionWithMeta, PartiallyDecodedInstruction, PublicKey, SystemProgram } from '@solana/web3.js'
+import { MEMO_PROGRAM_ID } from '@solana/spl-memo';
+import { PaymentVerification } from './interfaces'
+import { getAssociatedTokenAddress, TOKEN_PROGRAM_ID } from './splToken'
+
+export interface ExpectedPayment {
+  payer: PublicKey;
+  recipient: PublicKey;
+  // In base units of the payment currency
+  amount: number;
+  // SPL mint the payment must be made in; SOL when unset
+  mint?: PublicKey;
+  reference: PublicKey;
+  // Only checked when the user chose to put their note on chain
+  memo?: string;
+  // Fraction of `amount` the payment may fall short by
+  tolerance: number;
+}
+
+function isParsed(ix: ParsedInstruction | PartiallyDecodedInstruction): ix is ParsedInstruction {
+  return 'parsed' in ix;
+}
+
+// Checks the parsed transaction really is the payment we asked the user to sign
+export function verifyPayment(tx: ParsedTransactionWithMeta | null, signature: string, expected: ExpectedPayment): PaymentVerification {
+  if (!tx || !tx.meta) {
+    return { valid: false, reason: 'transaction_not_found', detail: `Transaction ${signature} could not be fetched` };
+  }
+
+  if (tx.meta.err) {
+    return { valid: false, reason: 'transaction_failed', detail: `Transaction failed on chain: ${JSON.stringify(tx.meta.err)}` };
+  }
+
+  const payerSigned = tx.transaction.message.accountKeys.some(
+    key => key.signer && key.pubkey.equals(expected.payer)
+  );
+  if (!payerSigned) {
+    return { valid: false, reason: 'payer_not_signer', detail: `${expected.payer.toString()} did not sign the transaction` };
+  }
+
+  const referenced = tx.transaction.message.accountKeys.some(key => key.pubkey.equals(expected.reference));
+  if (!referenced) {
+    return { valid: false, reason: 'reference_missing', detail: `Reference ${expected.reference.toString()} is not part of the transaction` };
+  }
+
+  const instructions = tx.transaction.message.instructions.filter(isParsed);
+
+  if (expected.memo !== undefined) {
+    const memoFound = instructions.some(
+      ix => ix.programId.equals(MEMO_PROGRAM_ID) && ix.parsed === expected.memo
+    );
+    if (!memoFound) {
+      return { valid: false, reason: 'memo_mismatch', detail: `No memo instruction matching "${expected.memo}"` };
+    }
+  }
+
+  const paid = expected.mint ? tokenTransferred(instructions, expected, expected.mint) : solTransferred(instructions, expected);
+  if (paid === null) {
+    const currency = expected.mint ? `${expected.mint.toString()} token` : 'SOL';
+    return { valid: false, reason: 'missing_transfer', detail: `No ${currency} transfer from payer to ${expected.recipient.toString()}` };
+  }
+
+  const minimum = Math.floor(expected.amount * (1 - expected.tolerance));
+  if (paid < minimum) {
+    return { valid: false, reason: 'insufficient_amount', detail: `Paid ${paid} base units, expected at least ${minimum}` };
+  }
+
+  return { valid: true, amount: paid };
+}
+
+// Sums the system transfers from payer to recipient, or null when there are none
+function solTransferred(instructions: ParsedInstruction[], expected: ExpectedPayment): number | null {
+  const transfers = instructions.filter(ix =>
+    ix.programId.equals(SystemProgram.programId) &&
+    ix.parsed?.type === 'transfer' &&
+    ix.parsed.info.source === expected.payer.toString() &&
+    ix.parsed.info.destination === expected.recipient.toString()
+  );
+  if (transfers.length === 0) return null;
+  return transfers.reduce((sum, ix) => sum + Number(ix.parsed.info.lamports), 0);
+}
+
+// Same for SPL transfers signed by the payer into the recipient's associated token account
+function tokenTransferred(instructions: ParsedInstruction[], expected: ExpectedPayment, mint: PublicKey): number | null {
+  const destination = getAssociatedTokenAddress(mint, expected.recipient).toString();
+  const transfers = instructions.filter(ix =>
+    ix.programId.equals(TOKEN_PROGRAM_ID) &&
+    (ix.parsed?.type === 'transfer' || ix.parsed?.type === 'transferChecked') &&
+    ix.parsed.info.authority === expected.payer.toString() &&
+    ix.parsed.info.destination === destination &&
+    (ix.parsed.type === 'transfer' || ix.parsed.info.mint === mint.toString())
+  );
+  if (transfers.length === 0) return null;
+  return transfers.reduce((sum, ix) => sum + Number(ix.parsed.info.tokenAmount?.amount ?? ix.parsed.info.amount), 0);
+}
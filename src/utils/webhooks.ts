@@ -0,0 +1,117 @@
+import * as path from 'path';
+import axios from 'axios';
+import { promises, mkdirSync } from 'fs';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { MintEvent, MintEventType, WebhookSubscription } from './interfaces'
+import { EventBus } from './events'
+import { sleep } from './sleep'
+import { logger } from './logger'
+
+export interface WebhookRegistry {
+  list(): Promise<WebhookSubscription[]>;
+  register(url: string, events: MintEventType[]): Promise<WebhookSubscription>;
+  remove(id: string): Promise<boolean>;
+}
+
+export interface WebhookDeliveryOptions {
+  maxAttempts: number;
+  backoffMs: number;
+  timeoutMs: number;
+}
+
+const log = logger.child({ module: 'webhooks' });
+
+// Webhook subscriptions are few and rarely change, so one JSON file is enough
+export function createWebhookRegistry(filePath: string): WebhookRegistry {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+
+  async function read(): Promise<WebhookSubscription[]> {
+    try {
+      return JSON.parse(await promises.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async function write(webhooks: WebhookSubscription[]) {
+    const tmpPath = `${filePath}.tmp`;
+    await promises.writeFile(tmpPath, JSON.stringify(webhooks, null, 2));
+    await promises.rename(tmpPath, filePath);
+  }
+
+  return {
+    list: read,
+
+    async register(url, events) {
+      const webhook: WebhookSubscription = {
+        id: randomUUID(),
+        url: new URL(url).toString(),
+        secret: randomBytes(32).toString('hex'),
+        events,
+        createdAt: Date.now(),
+      };
+      await write([...(await read()), webhook]);
+      return webhook;
+    },
+
+    async remove(id) {
+      const webhooks = await read();
+      const remaining = webhooks.filter(webhook => webhook.id !== id);
+      await write(remaining);
+      return remaining.length !== webhooks.length;
+    },
+  };
+}
+
+/**
+ * Signs `${timestamp}.${body}` with the webhook secret. Receivers recompute it from the
+ * `X-Astrophant-Timestamp` header and the raw body and compare against `X-Astrophant-Signature`.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+async function deliver(webhook: WebhookSubscription, event: MintEvent, options: WebhookDeliveryOptions) {
+  const body = JSON.stringify(event);
+
+  for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+    const timestamp = Date.now();
+    try {
+      await axios.post(webhook.url, body, {
+        timeout: options.timeoutMs,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Astrophant-Event': event.type,
+          'X-Astrophant-Timestamp': timestamp.toString(),
+          'X-Astrophant-Signature': `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+        },
+      });
+      return;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (attempt === options.maxAttempts) {
+        log.error('Webhook delivery gave up', { webhookId: webhook.id, event: event.type, orderId: event.orderId, error: message });
+        return;
+      }
+      const delay = options.backoffMs * 2 ** (attempt - 1);
+      log.warn('Webhook delivery failed, retrying', { webhookId: webhook.id, orderId: event.orderId, attempt, retryInMs: delay, error: message });
+      await sleep(delay);
+    }
+  }
+}
+
+// Fans every bus event out to the matching webhooks without holding up the pipeline
+export function startWebhookDispatcher(registry: WebhookRegistry, events: EventBus, options: WebhookDeliveryOptions) {
+  return events.subscribe(event => {
+    registry.list()
+      .then(webhooks => Promise.all(
+        webhooks
+          .filter(webhook => webhook.events.length === 0 || webhook.events.includes(event.type))
+          .map(webhook => deliver(webhook, event, options))
+      ))
+      .catch(error => log.error('Webhook dispatch failed', { error }));
+  });
+}
@@ -0,0 +1,219 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { Keypair, PublicKey, SystemProgram, VersionedTransaction } from '@solana/web3.js'
+import { createApp, MintApp } from '../src/app'
+import { loadConfig } from '../src/utils/config'
+import { ImageProvider } from '../src/utils/generateImage'
+import { MintJob, MintJobStatus } from '../src/utils/interfaces'
+import { configureLogger, LogLevel } from '../src/utils/logger'
+import { AppServices, createDryRunServices } from '../src/utils/services'
+import { createFakeChain, FakeChain } from './fakeChain'
+
+configureLogger({ level: (process.env.LOG_LEVEL || 'error') as LogLevel });
+
+interface DryRun {
+  mint: MintApp;
+  chain: FakeChain;
+  services: AppServices;
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+// The app in dry-run mode with its chain replaced by the fake one and state in a temporary directory
+async function startDryRun(env: NodeJS.ProcessEnv = {}, overrides: Partial<AppServices> = {}): Promise<DryRun> {
+  const dir = mkdtempSync(path.join(tmpdir(), 'dry-run-'));
+  const chain = createFakeChain();
+  const config = loadConfig({ APP_PROFILE: 'localnet' });
+  const baseEnv: NodeJS.ProcessEnv = {
+    DRY_RUN: 'true',
+    LOCAL_STORAGE_DIR: path.join(dir, 'storage'),
+    JOB_STORE_PATH: path.join(dir, 'jobs'),
+    COLLECTION_STATE_PATH: path.join(dir, 'collection.json'),
+    WEBHOOK_STORE_PATH: path.join(dir, 'webhooks.json'),
+    PAYMENT_POLL_INTERVAL_MS: '50',
+    JOB_MAX_ATTEMPTS: '2',
+    JOB_BACKOFF_MS: '10',
+  };
+  const services: AppServices = { ...createDryRunServices(config, baseEnv), connection: chain.connection, ...overrides };
+  chain.attach(services.umi);
+
+  const mint = createApp(config, services, {
+    ...baseEnv,
+    COLLECTION_ADDRESS: chain.addCollection(services.minter.publicKey),
+    ...env,
+  });
+  await mint.mintQueue.start();
+
+  const server: Server = await new Promise(resolve => {
+    const listening = mint.app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  return {
+    mint,
+    chain,
+    services,
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    async close() {
+      await new Promise(resolve => server.close(resolve));
+      rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+async function postAction(run: DryRun, account: PublicKey, prompt: string) {
+  const response = await fetch(`${run.baseUrl}/post_action?user_prompt=${encodeURIComponent(prompt)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ account: account.toString() }),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+// Reads the order id from the chained link, and the amount and reference key from the SOL transfer the buyer is asked to sign
+function paymentOf(body: { transaction: string; links: { next: { href: string } } }) {
+  const transaction = VersionedTransaction.deserialize(Buffer.from(body.transaction, 'base64'));
+  const keys = transaction.message.staticAccountKeys;
+  const transfer = transaction.message.compiledInstructions.find(ix => keys[ix.programIdIndex].equals(SystemProgram.programId))!;
+  return {
+    orderId: body.links.next.href.split('/')[2],
+    lamports: Number(Buffer.from(transfer.data).readBigUInt64LE(4)),
+    reference: keys[transfer.accountKeyIndexes[transfer.accountKeyIndexes.length - 1]],
+  };
+}
+
+async function waitForStatus(run: DryRun, orderId: string, statuses: MintJobStatus[], timeoutMs = 10_000): Promise<MintJob> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const job = await run.mint.mintQueue.store.get(orderId);
+    if (job && statuses.includes(job.status)) {
+      return job;
+    }
+    if (Date.now() > deadline) {
+      assert.fail(`Order ${orderId} is ${job?.status ?? 'missing'}, expected ${statuses.join(' or ')}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+describe('dry run', () => {
+  it('mints and transfers the NFT once the payment lands', async () => {
+    const run = await startDryRun();
+    try {
+      const buyer = Keypair.generate().publicKey;
+      const blink = await fetch(`${run.baseUrl}/get_action`);
+      assert.equal(blink.status, 200);
+
+      const { status, body } = await postAction(run, buyer, 'an elephant drifting past Saturn');
+      assert.equal(status, 200);
+      const payment = paymentOf(body);
+      assert.ok(payment.lamports > 0);
+
+      const signature = run.chain.pay(buyer, run.services.minter.publicKey, payment.lamports, payment.reference);
+      const job = await waitForStatus(run, payment.orderId, ['completed', 'dead']);
+
+      assert.equal(job.status, 'completed');
+      assert.equal(job.transactionSignature, signature);
+      assert.ok(job.assetAddress);
+      assert.ok(job.transferSignature);
+      // The asset creation and the transfer to the buyer
+      assert.equal(run.chain.sent.umi.length, 2);
+
+      const order = await (await fetch(`${run.baseUrl}/orders/${payment.orderId}`)).json();
+      assert.equal(order.stage, 'transferred');
+    } finally {
+      await run.close();
+    }
+  });
+
+  it('mints and transfers once when the confirmations of both are lost', async () => {
+    const run = await startDryRun();
+    try {
+      run.chain.dropConfirmations(2);
+      const buyer = Keypair.generate().publicKey;
+      const payment = paymentOf((await postAction(run, buyer, 'an elephant with a flaky RPC')).body);
+      run.chain.pay(buyer, run.services.minter.publicKey, payment.lamports, payment.reference);
+
+      const job = await waitForStatus(run, payment.orderId, ['completed', 'dead', 'refunded']);
+      assert.equal(job.status, 'completed');
+      assert.equal(job.refund, undefined);
+      // The retries find the asset and the transfer on chain instead of sending them again
+      assert.equal(run.chain.sent.umi.length, 2);
+    } finally {
+      await run.close();
+    }
+  });
+
+  it('turns away a prompt on the denylist before an order is placed', async () => {
+    const run = await startDryRun({ SAFETY_DENYLIST: 'forbidden' });
+    try {
+      const { status, body } = await postAction(run, Keypair.generate().publicKey, 'a forbidden picture');
+      assert.equal(status, 422);
+      assert.match(body.message, /prompt was flagged/);
+      assert.deepEqual(await run.mint.mintQueue.store.list(), []);
+    } finally {
+      await run.close();
+    }
+  });
+
+  it('expires an unpaid order without minting', async () => {
+    const run = await startDryRun({ PAYMENT_EXPIRY_MS: '300' });
+    try {
+      const { status, body } = await postAction(run, Keypair.generate().publicKey, 'an unpaid elephant');
+      assert.equal(status, 200);
+
+      const job = await waitForStatus(run, paymentOf(body).orderId, ['expired', 'completed', 'dead']);
+      assert.equal(job.status, 'expired');
+      assert.equal(job.transactionSignature, undefined);
+      assert.equal(run.chain.sent.umi.length, 0);
+    } finally {
+      await run.close();
+    }
+  });
+
+  describe('mint failure', () => {
+    it('refunds the buyer when the mint transaction keeps failing', async () => {
+      const run = await startDryRun();
+      try {
+        run.chain.failMints('Transaction simulation failed: custom program error: 0x1');
+        const buyer = Keypair.generate().publicKey;
+        const payment = paymentOf((await postAction(run, buyer, 'an elephant that never lands')).body);
+        run.chain.pay(buyer, run.services.minter.publicKey, payment.lamports, payment.reference);
+
+        const job = await waitForStatus(run, payment.orderId, ['refunded', 'completed']);
+        assert.equal(job.status, 'refunded');
+        assert.equal(job.stage, 'asset');
+        assert.equal(job.refund?.amount, payment.lamports);
+        assert.deepEqual(run.chain.sent.raw, [job.refund?.signature]);
+      } finally {
+        await run.close();
+      }
+    });
+
+    it('refunds the buyer when the image provider is down', async () => {
+      const failingProvider: ImageProvider = {
+        name: 'failing',
+        async generate() {
+          throw new Error('Image provider is unavailable');
+        },
+      };
+      const run = await startDryRun({}, { imageProvider: failingProvider });
+      try {
+        const buyer = Keypair.generate().publicKey;
+        const payment = paymentOf((await postAction(run, buyer, 'an elephant nobody can draw')).body);
+        run.chain.pay(buyer, run.services.minter.publicKey, payment.lamports, payment.reference);
+
+        const job = await waitForStatus(run, payment.orderId, ['refunded', 'completed']);
+        assert.equal(job.status, 'refunded');
+        assert.equal(job.stage, 'image');
+        assert.equal(run.chain.sent.umi.length, 0);
+        assert.deepEqual(run.chain.sent.raw, [job.refund?.signature]);
+      } finally {
+        await run.close();
+      }
+    });
+  });
+});
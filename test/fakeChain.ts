@@ -0,0 +1,258 @@
+import { randomBytes } from 'crypto';
+import { Connection, LAMPORTS_PER_SOL, ParsedTransactionWithMeta, PublicKey, SystemProgram, Transaction } from '@solana/web3.js'
+import { publicKey, RpcInterface, Umi } from '@metaplex-foundation/umi';
+import { base58, publicKey as publicKeySerializer, string, struct, u32 } from '@metaplex-foundation/umi/serializers';
+import { BaseUpdateAuthorityArgs, getBaseUpdateAuthoritySerializer, getKeySerializer, Key, MPL_CORE_PROGRAM_ID } from '@metaplex-foundation/mpl-core';
+
+export interface FakeChain {
+  // Stands in for the web3.js connection: payments, fees, simulations and refunds
+  connection: Connection;
+  // Replaces umi's RPC, which creates and transfers the assets
+  attach(umi: Umi): void;
+  // An existing MPL Core collection owned by `updateAuthority`, returned by its address
+  addCollection(updateAuthority: PublicKey): string;
+  // Lands a confirmed SOL transfer carrying `reference` and returns its signature
+  pay(payer: PublicKey, recipient: PublicKey, lamports: number, reference: PublicKey): string;
+  // Makes every transaction sent through umi fail with `message`, or succeed again with null
+  failMints(message: string | null): void;
+  // Lets the next `count` umi transactions land but fails their confirmation, like an RPC timeout
+  dropConfirmations(count: number): void;
+  // Signatures of the transactions sent through umi and of the raw (refund) transactions
+  sent: { umi: string[]; raw: string[] };
+}
+
+const BLOCKHASH = { blockhash: base58.deserialize(new Uint8Array(32).fill(7))[0], lastValidBlockHeight: 1_000 };
+
+function randomSignature(): string {
+  return base58.deserialize(randomBytes(64))[0];
+}
+
+// mpl-core only exports a deserializer for collection accounts; this is their layout without plugins
+const collectionSerializer = struct<{ key: Key; updateAuthority: string; name: string; uri: string; numMinted: number; currentSize: number }>([
+  ['key', getKeySerializer()],
+  ['updateAuthority', publicKeySerializer()],
+  ['name', string()],
+  ['uri', string()],
+  ['numMinted', u32()],
+  ['currentSize', u32()],
+]);
+
+// Same for assets; their trailing `seq` option is written as None by hand
+const assetSerializer = struct<{ key: Key; owner: string; updateAuthority: BaseUpdateAuthorityArgs; name: string; uri: string }>([
+  ['key', getKeySerializer()],
+  ['owner', publicKeySerializer()],
+  ['updateAuthority', getBaseUpdateAuthoritySerializer()],
+  ['name', string()],
+  ['uri', string()],
+]);
+
+// Discriminators of the MPL Core instructions the app sends
+const CREATE_V2 = 20;
+const TRANSFER_V1 = 14;
+
+function unsupported(method: string): never {
+  throw new Error(`The fake chain does not implement ${method}`);
+}
+
+/**
+ * An in-process cluster for the dry-run tests: enough of the RPC surface for the payment
+ * watcher, payment verification, priority fees, refunds and umi's send-and-confirm, with
+ * every transaction landing instantly.
+ */
+export function createFakeChain(): FakeChain {
+  const transactions = new Map<string, ParsedTransactionWithMeta>();
+  // Newest first, like getSignaturesForAddress
+  const history: string[] = [];
+  const accounts = new Map<string, Uint8Array>();
+  const logListeners = new Map<number, { address: PublicKey; callback: (logs: { signature: string; err: null; logs: string[] }) => void }>();
+  const sent: FakeChain['sent'] = { umi: [], raw: [] };
+  let nextListenerId = 1;
+  let mintError: string | null = null;
+  let droppedConfirmations = 0;
+
+  function setAssetOwner(asset: string, owner: string) {
+    accounts.set(asset, new Uint8Array([...assetSerializer.serialize({
+      key: Key.AssetV1,
+      owner,
+      updateAuthority: { __kind: 'None' },
+      name: 'Dry-run asset',
+      uri: 'https://example.com/asset.json',
+    }), 0]));
+  }
+
+  const connection = {
+    onLogs(address: PublicKey, callback: (logs: { signature: string; err: null; logs: string[] }) => void) {
+      const id = nextListenerId++;
+      logListeners.set(id, { address, callback });
+      return id;
+    },
+    async removeOnLogsListener(id: number) {
+      logListeners.delete(id);
+    },
+    async getSignaturesForAddress(address: PublicKey, options: { until?: string; limit?: number } = {}) {
+      const touching = history.filter(signature =>
+        transactions.get(signature)!.transaction.message.accountKeys.some(key => key.pubkey.equals(address))
+      );
+      const until = options.until ? touching.indexOf(options.until) : -1;
+      return (until === -1 ? touching : touching.slice(0, until))
+        .slice(0, options.limit ?? 1_000)
+        .map(signature => ({ signature, slot: 1, err: null, memo: null, blockTime: null }));
+    },
+    async getParsedTransaction(signature: string) {
+      return transactions.get(signature) ?? null;
+    },
+    async getParsedTransactions(signatures: string[]) {
+      return signatures.map(signature => transactions.get(signature) ?? null);
+    },
+    async getRecentPrioritizationFees() {
+      return [];
+    },
+    async getLatestBlockhash() {
+      return BLOCKHASH;
+    },
+    async simulateTransaction() {
+      return { context: { slot: 1 }, value: { err: null, logs: [], accounts: null, unitsConsumed: 20_000 } };
+    },
+    async getBalance() {
+      return 10 * LAMPORTS_PER_SOL;
+    },
+    async getBlockHeight() {
+      return 1;
+    },
+    async getSignatureStatus() {
+      return { context: { slot: 1 }, value: null };
+    },
+    async getFeeForMessage() {
+      return { context: { slot: 1 }, value: 5_000 };
+    },
+    async sendRawTransaction(raw: Buffer) {
+      const signature = base58.deserialize(Transaction.from(raw).signature!)[0];
+      sent.raw.push(signature);
+      return signature;
+    },
+    async confirmTransaction() {
+      return { context: { slot: 1 }, value: { err: null } };
+    },
+  } as unknown as Connection;
+
+  const rpc: RpcInterface = {
+    getEndpoint: () => 'http://fake-chain',
+    getCluster: () => 'localnet',
+    async getAccount(address) {
+      const data = accounts.get(address.toString());
+      if (!data) {
+        return { exists: false, publicKey: address };
+      }
+      return {
+        exists: true,
+        publicKey: address,
+        owner: MPL_CORE_PROGRAM_ID,
+        lamports: { basisPoints: BigInt(LAMPORTS_PER_SOL / 100), identifier: 'SOL', decimals: 9 },
+        executable: false,
+        data,
+      };
+    },
+    async getAccounts(addresses) {
+      return Promise.all(addresses.map(address => rpc.getAccount(address)));
+    },
+    getProgramAccounts: () => unsupported('getProgramAccounts'),
+    getBlockTime: () => unsupported('getBlockTime'),
+    getBalance: () => unsupported('getBalance'),
+    getRent: () => unsupported('getRent'),
+    getSlot: async () => 1,
+    getLatestBlockhash: async () => BLOCKHASH,
+    getTransaction: () => unsupported('getTransaction'),
+    getSignatureStatuses: () => unsupported('getSignatureStatuses'),
+    accountExists: async (address) => accounts.has(address.toString()),
+    airdrop: () => unsupported('airdrop'),
+    call: () => unsupported('call'),
+    async sendTransaction(transaction) {
+      if (mintError) {
+        throw new Error(mintError);
+      }
+      // Optional accounts left out are filled in with the program id
+      const { accounts: keys, instructions } = transaction.message;
+      for (const ix of instructions.filter(ix => keys[ix.programIndex] === MPL_CORE_PROGRAM_ID)) {
+        const [asset, , , payer, owner] = ix.accountIndexes.map(index => keys[index]);
+        if (ix.data[0] === CREATE_V2) {
+          setAssetOwner(asset, owner === MPL_CORE_PROGRAM_ID ? payer : owner);
+        } else if (ix.data[0] === TRANSFER_V1) {
+          setAssetOwner(asset, owner);
+        }
+      }
+      sent.umi.push(base58.deserialize(transaction.signatures[0])[0]);
+      return transaction.signatures[0];
+    },
+    async confirmTransaction() {
+      if (droppedConfirmations > 0) {
+        droppedConfirmations -= 1;
+        throw new Error('Transaction was not confirmed in 30.00 seconds');
+      }
+      return { context: { slot: 1 }, value: { err: null } };
+    },
+  };
+
+  return {
+    connection,
+    sent,
+
+    attach(umi) {
+      umi.use({ install(context) { context.rpc = rpc; } });
+    },
+
+    addCollection(updateAuthority) {
+      const address = publicKey(randomBytes(32));
+      accounts.set(address.toString(), collectionSerializer.serialize({
+        key: Key.CollectionV1,
+        updateAuthority: updateAuthority.toString(),
+        name: 'Dry-run collection',
+        uri: 'https://example.com/collection.json',
+        numMinted: 0,
+        currentSize: 0,
+      }));
+      return address.toString();
+    },
+
+    pay(payer, recipient, lamports, reference) {
+      const signature = randomSignature();
+      transactions.set(signature, {
+        slot: 1,
+        blockTime: Math.floor(Date.now() / 1000),
+        meta: { err: null, fee: 5_000, preBalances: [], postBalances: [] },
+        transaction: {
+          signatures: [signature],
+          message: {
+            accountKeys: [
+              { pubkey: payer, signer: true, writable: true, source: 'transaction' },
+              { pubkey: recipient, signer: false, writable: true, source: 'transaction' },
+              { pubkey: SystemProgram.programId, signer: false, writable: false, source: 'transaction' },
+              { pubkey: reference, signer: false, writable: false, source: 'transaction' },
+            ],
+            instructions: [{
+              programId: SystemProgram.programId,
+              program: 'system',
+              parsed: { type: 'transfer', info: { source: payer.toString(), destination: recipient.toString(), lamports } },
+            }],
+            recentBlockhash: BLOCKHASH.blockhash,
+          },
+        },
+      });
+      history.unshift(signature);
+
+      for (const { address, callback } of logListeners.values()) {
+        if (address.equals(recipient)) {
+          callback({ signature, err: null, logs: [] });
+        }
+      }
+      return signature;
+    },
+
+    failMints(message) {
+      mintError = message;
+    },
+
+    dropConfirmations(count) {
+      droppedConfirmations = count;
+    },
+  };
+}
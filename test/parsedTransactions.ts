@@ -0,0 +1,68 @@
+import { randomBytes } from 'crypto';
+import { ParsedInstruction, ParsedTransactionWithMeta, PublicKey, SystemProgram } from '@solana/web3.js'
+import { MEMO_PROGRAM_ID } from '@solana/spl-memo';
+import { base58 } from '@metaplex-foundation/umi/serializers';
+import { getAssociatedTokenAddress, TOKEN_PROGRAM_ID } from '../src/utils/splToken'
+
+export interface ParsedTransactionOptions {
+  signers: PublicKey[];
+  // Read-only accounts besides the instructions' programs, e.g. reference keys
+  references?: PublicKey[];
+  instructions: ParsedInstruction[];
+  err?: unknown;
+}
+
+export function randomSignature(): string {
+  return base58.deserialize(randomBytes(64))[0];
+}
+
+// A confirmed transaction as getParsedTransaction returns it, with just the fields the app reads
+export function parsedTransaction(options: ParsedTransactionOptions): ParsedTransactionWithMeta {
+  const programs = options.instructions.map(ix => ix.programId);
+  return {
+    slot: 1,
+    blockTime: Math.floor(Date.now() / 1000),
+    meta: { err: options.err ?? null, fee: 5_000, preBalances: [], postBalances: [] },
+    transaction: {
+      signatures: [randomSignature()],
+      message: {
+        accountKeys: [
+          ...options.signers.map(pubkey => ({ pubkey, signer: true, writable: true, source: 'transaction' as const })),
+          ...[...(options.references ?? []), ...programs].map(pubkey => ({ pubkey, signer: false, writable: false, source: 'transaction' as const })),
+        ],
+        instructions: options.instructions,
+        recentBlockhash: randomSignature(),
+      },
+    },
+  };
+}
+
+export function solTransfer(source: PublicKey, destination: PublicKey, lamports: number): ParsedInstruction {
+  return {
+    programId: SystemProgram.programId,
+    program: 'system',
+    parsed: { type: 'transfer', info: { source: source.toString(), destination: destination.toString(), lamports } },
+  };
+}
+
+// `transferChecked` from the authority's associated token account into `destination`
+export function tokenTransferChecked(mint: PublicKey, authority: PublicKey, destination: PublicKey, amount: number, decimals = 6): ParsedInstruction {
+  return {
+    programId: TOKEN_PROGRAM_ID,
+    program: 'spl-token',
+    parsed: {
+      type: 'transferChecked',
+      info: {
+        source: getAssociatedTokenAddress(mint, authority).toString(),
+        destination: destination.toString(),
+        authority: authority.toString(),
+        mint: mint.toString(),
+        tokenAmount: { amount: String(amount), decimals, uiAmount: amount / 10 ** decimals, uiAmountString: String(amount / 10 ** decimals) },
+      },
+    },
+  };
+}
+
+export function memo(text: string): ParsedInstruction {
+  return { programId: MEMO_PROGRAM_ID, program: 'spl-memo', parsed: text };
+}
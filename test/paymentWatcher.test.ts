@@ -0,0 +1,119 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Connection, Keypair, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js'
+import { configureLogger, LogLevel } from '../src/utils/logger'
+import { createPaymentWatcher, WatchedPayment } from '../src/utils/paymentWatcher'
+import { verifyPayment } from '../src/utils/verifyPayment'
+import { parsedTransaction, solTransfer } from './parsedTransactions'
+
+configureLogger({ level: (process.env.LOG_LEVEL || 'error') as LogLevel });
+
+const payer = Keypair.generate().publicKey;
+const recipient = Keypair.generate().publicKey;
+
+// Just the RPC calls the watcher makes; `hidden` transactions are listed but not returned yet
+function createConnection() {
+  const transactions = new Map<string, ParsedTransactionWithMeta>();
+  const history: string[] = [];
+  const hidden = new Set<string>();
+  let onLogs: ((logs: { signature: string; err: null }) => void) | null = null;
+
+  const fetch = (signature: string) => (hidden.has(signature) ? null : transactions.get(signature) ?? null);
+  const connection = {
+    onLogs(_address: PublicKey, callback: typeof onLogs) {
+      onLogs = callback;
+      return 1;
+    },
+    async removeOnLogsListener() {
+      onLogs = null;
+    },
+    async getSignaturesForAddress(address: PublicKey, options: { until?: string } = {}) {
+      const touching = history.filter(signature =>
+        transactions.get(signature)!.transaction.message.accountKeys.some(key => key.pubkey.equals(address))
+      );
+      const until = options.until ? touching.indexOf(options.until) : -1;
+      return (until === -1 ? touching : touching.slice(0, until)).map(signature => ({ signature, slot: 1, err: null, memo: null, blockTime: null }));
+    },
+    async getParsedTransaction(signature: string) {
+      return fetch(signature);
+    },
+    async getParsedTransactions(signatures: string[]) {
+      return signatures.map(fetch);
+    },
+  } as unknown as Connection;
+
+  return {
+    connection,
+    hidden,
+    // Lands `tx` and notifies the log subscription unless `notify` is false
+    land(tx: ParsedTransactionWithMeta, notify = true) {
+      const signature = tx.transaction.signatures[0];
+      transactions.set(signature, tx);
+      history.unshift(signature);
+      if (notify) {
+        onLogs?.({ signature, err: null });
+      }
+      return signature;
+    },
+  };
+}
+
+function payment(reference: PublicKey, expiresInMs: number): WatchedPayment {
+  return {
+    orderId: reference.toString().slice(0, 8),
+    reference,
+    expiresAt: Date.now() + expiresInMs,
+    verify: async (signature, tx) => verifyPayment(tx, signature, { payer, recipient, amount: 1_000, reference, tolerance: 0 }),
+  };
+}
+
+function transfer(references: PublicKey[]) {
+  return parsedTransaction({ signers: [payer], references: [recipient, ...references], instructions: [solTransfer(payer, recipient, 1_000)] });
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 20));
+
+describe('payment watcher', () => {
+  it('rejects a transaction carrying the references of several orders for all of them', async () => {
+    const chain = createConnection();
+    const watcher = createPaymentWatcher(chain.connection, { recipient, pollIntervalMs: 1_000 });
+    const first = Keypair.generate().publicKey;
+    const second = Keypair.generate().publicKey;
+
+    const paid = watcher.waitForPayment(payment(first, 5_000));
+    const unpaid = watcher.waitForPayment(payment(second, 200));
+    await tick();
+
+    const shared = chain.land(transfer([first, second]));
+    await tick();
+    const own = chain.land(transfer([first]));
+
+    const paidResult = await paid;
+    assert.equal(paidResult.signature, own);
+    assert.deepEqual(paidResult.rejections.map(rejection => [rejection.signature, rejection.reason]), [[shared, 'multiple_references']]);
+
+    const unpaidResult = await unpaid;
+    assert.equal(unpaidResult.signature, null);
+    assert.deepEqual(unpaidResult.rejections.map(rejection => [rejection.signature, rejection.reason]), [[shared, 'multiple_references']]);
+  });
+
+  it('polls again for a payment the node could not return yet', async () => {
+    const chain = createConnection();
+    const watcher = createPaymentWatcher(chain.connection, { recipient, pollIntervalMs: 20 });
+    const reference = Keypair.generate().publicKey;
+
+    const result = watcher.waitForPayment(payment(reference, 5_000));
+    await tick();
+    const tx = transfer([reference]);
+    chain.hidden.add(tx.transaction.signatures[0]);
+    const signature = chain.land(tx, false);
+    // A few polls see the signature without its transaction
+    await tick();
+    await tick();
+    chain.hidden.delete(signature);
+
+    const { signature: paidWith, rejections } = await result;
+    assert.equal(paidWith, signature);
+    assert.deepEqual(rejections, []);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair, PublicKey } from '@solana/web3.js'
+import { getAssociatedTokenAddress } from '../src/utils/splToken'
+import { ExpectedPayment, verifyPayment } from '../src/utils/verifyPayment'
+import { memo, parsedTransaction, ParsedTransactionOptions, randomSignature, solTransfer, tokenTransferChecked } from './parsedTransactions'
+
+const payer = Keypair.generate().publicKey;
+const recipient = Keypair.generate().publicKey;
+const reference = Keypair.generate().publicKey;
+const usdc = Keypair.generate().publicKey;
+
+const SOL_PAYMENT: ExpectedPayment = { payer, recipient, amount: 1_000_000, reference, tolerance: 0 };
+const USDC_PAYMENT: ExpectedPayment = { ...SOL_PAYMENT, amount: 3_000_000, mint: usdc };
+
+function verify(expected: ExpectedPayment, tx: Partial<ParsedTransactionOptions>) {
+  return verifyPayment(parsedTransaction({ signers: [payer], references: [reference], instructions: [], ...tx }), randomSignature(), expected);
+}
+
+function reasonOf(verification: ReturnType<typeof verifyPayment>) {
+  return verification.valid ? 'valid' : verification.reason;
+}
+
+describe('verifyPayment', () => {
+  it('accepts the SOL transfer the buyer was asked to sign', () => {
+    const verification = verify(SOL_PAYMENT, { instructions: [solTransfer(payer, recipient, 1_000_000)] });
+    assert.deepEqual(verification, { valid: true, amount: 1_000_000 });
+  });
+
+  it('reports a transaction the node could not return', () => {
+    assert.equal(reasonOf(verifyPayment(null, randomSignature(), SOL_PAYMENT)), 'transaction_not_found');
+  });
+
+  it('rejects a failed transaction', () => {
+    const verification = verify(SOL_PAYMENT, { instructions: [solTransfer(payer, recipient, 1_000_000)], err: { InstructionError: [0, 'Custom'] } });
+    assert.equal(reasonOf(verification), 'transaction_failed');
+  });
+
+  it('rejects a transfer the payer did not sign', () => {
+    const stranger = Keypair.generate().publicKey;
+    const verification = verify(SOL_PAYMENT, { signers: [stranger], references: [reference, payer], instructions: [solTransfer(payer, recipient, 1_000_000)] });
+    assert.equal(reasonOf(verification), 'payer_not_signer');
+  });
+
+  it('rejects a transaction without the order reference', () => {
+    const verification = verify(SOL_PAYMENT, { references: [], instructions: [solTransfer(payer, recipient, 1_000_000)] });
+    assert.equal(reasonOf(verification), 'reference_missing');
+  });
+
+  it('rejects a memo that differs from the order note', () => {
+    const expected = { ...SOL_PAYMENT, memo: 'happy birthday' };
+    const instructions = [solTransfer(payer, recipient, 1_000_000)];
+    assert.equal(reasonOf(verify(expected, { instructions: [...instructions, memo('happy holidays')] })), 'memo_mismatch');
+    assert.equal(reasonOf(verify(expected, { instructions })), 'memo_mismatch');
+    assert.equal(reasonOf(verify(expected, { instructions: [...instructions, memo('happy birthday')] })), 'valid');
+  });
+
+  it('rejects a SOL transfer to another wallet', () => {
+    const verification = verify(SOL_PAYMENT, { instructions: [solTransfer(payer, Keypair.generate().publicKey, 1_000_000)] });
+    assert.equal(reasonOf(verification), 'missing_transfer');
+  });
+
+  it('rejects a payment short of the quote beyond the tolerance', () => {
+    const instructions = [solTransfer(payer, recipient, 980_000)];
+    assert.equal(reasonOf(verify(SOL_PAYMENT, { instructions })), 'insufficient_amount');
+    assert.deepEqual(verify({ ...SOL_PAYMENT, tolerance: 0.02 }, { instructions }), { valid: true, amount: 980_000 });
+  });
+
+  it('sums split SOL transfers to the recipient', () => {
+    const verification = verify(SOL_PAYMENT, { instructions: [solTransfer(payer, recipient, 400_000), solTransfer(payer, recipient, 600_000)] });
+    assert.deepEqual(verification, { valid: true, amount: 1_000_000 });
+  });
+
+  describe('SPL token payments', () => {
+    const recipientAccount = getAssociatedTokenAddress(usdc, recipient);
+
+    it('accepts transferChecked into the recipient token account', () => {
+      const verification = verify(USDC_PAYMENT, { instructions: [tokenTransferChecked(usdc, payer, recipientAccount, 3_000_000)] });
+      assert.deepEqual(verification, { valid: true, amount: 3_000_000 });
+    });
+
+    it('rejects transferChecked of another mint', () => {
+      const other = Keypair.generate().publicKey;
+      // Sent to the recipient's USDC account, but in another token
+      const instructions = [tokenTransferChecked(other, payer, recipientAccount, 3_000_000)];
+      assert.equal(reasonOf(verify(USDC_PAYMENT, { instructions })), 'missing_transfer');
+    });
+
+    it('rejects transferChecked into another token account', () => {
+      const destinations: PublicKey[] = [
+        getAssociatedTokenAddress(usdc, Keypair.generate().publicKey),
+        // The recipient's wallet itself rather than its token account
+        recipient,
+      ];
+      for (const destination of destinations) {
+        const instructions = [tokenTransferChecked(usdc, payer, destination, 3_000_000)];
+        assert.equal(reasonOf(verify(USDC_PAYMENT, { instructions })), 'missing_transfer');
+      }
+    });
+
+    it('rejects a token payment short of the quote', () => {
+      const instructions = [tokenTransferChecked(usdc, payer, recipientAccount, 2_000_000)];
+      assert.equal(reasonOf(verify(USDC_PAYMENT, { instructions })), 'insufficient_amount');
+    });
+  });
+});